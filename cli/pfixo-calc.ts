@@ -0,0 +1,119 @@
+#!/usr/bin/env -S npx tsx
+// Headless runner for the same model as the app, for portfolio reviews over many clinics.
+//
+//   pfixo-calc run scenario.json [--format json|csv] [--out file]
+//   pfixo-calc batch clinics.csv [--base scenario.json] [--format json|csv] [--out results.csv]
+//
+// From a checkout, `npm run calc -- <command> ...` runs it without linking the bin.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import {
+  batchToSheet,
+  BatchResult,
+  calculateBatchResult,
+  NamedScenario,
+  parseBatchRows,
+  parseScenarioInput,
+  summarizeBatch,
+} from '../lib/batch';
+import { createI18n } from '../lib/i18n';
+import { DEFAULT_SCENARIO, ScenarioFileError } from '../lib/scenarioStore';
+import { parseCsv, SpreadsheetError, toCsv } from '../lib/spreadsheet';
+
+type OutputFormat = 'json' | 'csv';
+
+interface CliOptions {
+  command: string | undefined;
+  input: string | undefined;
+  out?: string;
+  base?: string;
+  format?: OutputFormat;
+}
+
+const USAGE = `Uso:
+  pfixo-calc run <cenario.json> [--format json|csv] [--out arquivo]
+  pfixo-calc batch <clinicas.csv> [--base cenario.json] [--format json|csv] [--out resultados.csv]
+
+O cenário pode ser um arquivo exportado pela calculadora ou um objeto { metrics, assumptions, conversionCurve }.
+No modo batch, cada coluna com o nome de um campo do modelo (contactsPerDay, ticketValue, humanLostLeadsRate...)
+substitui o valor do cenário base; taxas de leads perdidos vão em fração (0,3 = 30%).
+A coluna "nome" (ou "clinica") identifica cada linha.`;
+
+const { t } = createI18n();
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, input, ...rest] = args;
+  const options: CliOptions = { command, input };
+  for (let i = 0; i < rest.length; i += 2) {
+    const [flag, value] = [rest[i], rest[i + 1]];
+    if (value === undefined) throw new UsageError(`Faltou o valor de ${flag}`);
+    if (flag === '--out') options.out = value;
+    else if (flag === '--base') options.base = value;
+    else if (flag === '--format' && (value === 'json' || value === 'csv')) options.format = value;
+    else throw new UsageError(`Opção inválida: ${flag} ${value}`);
+  }
+  return options;
+}
+
+async function readScenarios(path: string): Promise<NamedScenario[]> {
+  return parseScenarioInput(await readFile(path, 'utf8'), basename(path, extname(path)));
+}
+
+function render(results: BatchResult[], format: OutputFormat): string {
+  const summary = summarizeBatch(results);
+  return format === 'csv'
+    ? toCsv(batchToSheet(results, summary))
+    : `${JSON.stringify({ results, summary }, null, 2)}\n`;
+}
+
+async function main(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+  if (!options.input || (options.command !== 'run' && options.command !== 'batch')) {
+    throw new UsageError(USAGE);
+  }
+
+  let scenarios: NamedScenario[];
+  let hasRowErrors = false;
+  if (options.command === 'run') {
+    scenarios = await readScenarios(options.input);
+  } else {
+    const base = options.base ? (await readScenarios(options.base))[0]?.scenario ?? DEFAULT_SCENARIO : DEFAULT_SCENARIO;
+    const rows = parseCsv(await readFile(options.input, 'utf8'));
+    if (rows.length < 2) throw new SpreadsheetError('import.error.empty');
+
+    const parsed = parseBatchRows(rows, base, t);
+    for (const error of parsed.errors) {
+      process.stderr.write(`${t('import.rowError', { row: error.row, message: t(error.messageKey, error.params) })}\n`);
+    }
+    scenarios = parsed.scenarios;
+    hasRowErrors = parsed.errors.length > 0;
+  }
+
+  // Without an explicit format, the extension of --out decides; the terminal gets JSON
+  const format = options.format ?? (options.out && extname(options.out).toLowerCase() === '.csv' ? 'csv' : 'json');
+  const output = render(scenarios.map(calculateBatchResult), format);
+  if (options.out) {
+    await writeFile(options.out, output, 'utf8');
+    process.stderr.write(`${scenarios.length} cenário(s) calculado(s) em ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return hasRowErrors ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n`);
+    } else if (error instanceof ScenarioFileError || error instanceof SpreadsheetError) {
+      process.stderr.write(`${t(error.messageKey, error.params)}\n`);
+    } else {
+      process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    }
+    process.exit(2);
+  }
+);
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { AssumptionsType, MetricsType } from '../lib/calculator';
+import { ASSUMPTION_RULES, METRIC_RULES } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+interface AssumptionsPanelProps {
+  metrics: MetricsType;
+  assumptions: AssumptionsType;
+  onMetricsChange: (metrics: MetricsType) => void;
+  onAssumptionsChange: (assumptions: AssumptionsType) => void;
+  // The detailed cost model replaces the flat cost inputs, so they are read-only while it is on
+  costModelEnabled: boolean;
+}
+
+// Rates are stored as fractions but edited as percentages
+const toPercent = (rate: number) => Math.round(rate * 10000) / 100;
+
+function AssumptionsPanel({ metrics, assumptions, onMetricsChange, onAssumptionsChange, costModelEnabled }: AssumptionsPanelProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const costHint = costModelEnabled ? t('inputs.costFromCostModel') : undefined;
+
+  const setAssumption = (key: keyof AssumptionsType, value: number) =>
+    onAssumptionsChange({ ...assumptions, [key]: value });
+  const setMetric = (key: keyof MetricsType, value: number) =>
+    onMetricsChange({ ...metrics, [key]: value });
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <SlidersHorizontal className="mr-2 text-cyan-400" />
+          {t('assumptions.title')}
+        </h2>
+        {isOpen ? <ChevronUp className="text-gray-400" /> : <ChevronDown className="text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="grid md:grid-cols-3 gap-8 mt-6">
+          <div className="space-y-4">
+            <h3 className="font-semibold text-gray-200">{t('assumptions.calendar')}</h3>
+            <NumberField
+              label={t('assumptions.daysPerMonth')}
+              value={assumptions.daysPerMonth}
+              rule={ASSUMPTION_RULES.daysPerMonth}
+              onChange={(value) => setAssumption('daysPerMonth', value)}
+            />
+            <NumberField
+              label={t('assumptions.workingDaysPerMonth')}
+              value={assumptions.workingDaysPerMonth}
+              rule={ASSUMPTION_RULES.workingDaysPerMonth}
+              onChange={(value) => setAssumption('workingDaysPerMonth', value)}
+            />
+            <NumberField
+              label={t('assumptions.hoursPerDay')}
+              value={assumptions.hoursPerDay}
+              rule={ASSUMPTION_RULES.hoursPerDay}
+              onChange={(value) => setAssumption('hoursPerDay', value)}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-gray-200">{t('mode.human')}</h3>
+            <NumberField
+              label={t('assumptions.lostLeads')}
+              value={toPercent(assumptions.humanLostLeadsRate)}
+              rule={ASSUMPTION_RULES.humanLostLeadsRate}
+              onChange={(value) => setAssumption('humanLostLeadsRate', value / 100)}
+            />
+            <NumberField
+              label={t('assumptions.costPerHour')}
+              value={metrics.humanCostPerHour}
+              rule={METRIC_RULES.humanCostPerHour}
+              disabled={costModelEnabled}
+              hint={costHint}
+              onChange={(value) => setMetric('humanCostPerHour', value)}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-gray-200">{t('mode.ai')}</h3>
+            <NumberField
+              label={t('assumptions.aiMonthlyCost')}
+              value={metrics.aiCostPerMonth}
+              rule={METRIC_RULES.aiCostPerMonth}
+              disabled={costModelEnabled}
+              hint={costHint}
+              onChange={(value) => setMetric('aiCostPerMonth', value)}
+            />
+            <NumberField
+              label={t('assumptions.costPerHour')}
+              value={metrics.aiCostPerHour}
+              rule={METRIC_RULES.aiCostPerHour}
+              disabled={costModelEnabled}
+              hint={costHint}
+              onChange={(value) => setMetric('aiCostPerHour', value)}
+            />
+            <NumberField
+              label={t('assumptions.responseTime')}
+              value={assumptions.aiResponseTime}
+              rule={ASSUMPTION_RULES.aiResponseTime}
+              onChange={(value) => setAssumption('aiResponseTime', value)}
+            />
+            <NumberField
+              label={t('assumptions.conversionRate')}
+              value={assumptions.aiConversionRate}
+              rule={ASSUMPTION_RULES.aiConversionRate}
+              onChange={(value) => setAssumption('aiConversionRate', value)}
+            />
+            <NumberField
+              label={t('assumptions.lostLeads')}
+              value={toPercent(assumptions.aiLostLeadsRate)}
+              rule={ASSUMPTION_RULES.aiLostLeadsRate}
+              onChange={(value) => setAssumption('aiLostLeadsRate', value / 100)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AssumptionsPanel;
@@ -0,0 +1,135 @@
+import { Users } from 'lucide-react';
+import { CapacityResult, CapacitySettings, MAX_WAIT_MINUTES } from '../lib/capacity';
+import { HOUR_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+interface CapacityPanelProps {
+  enabled: boolean;
+  settings: CapacitySettings;
+  capacity: CapacityResult | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onSettingsChange: (settings: CapacitySettings) => void;
+}
+
+function CapacityPanel({ enabled, settings, capacity, onEnabledChange, onSettingsChange }: CapacityPanelProps) {
+  const { t, formatNumber, formatPercent } = useI18n();
+  const formatWait = (minutes: number) => `${formatNumber(minutes, 1)} min`;
+
+  const setSetting = (key: Exclude<keyof CapacitySettings, 'hourlyDistribution'>, value: number) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  const setHourWeight = (hour: number, value: number) =>
+    onSettingsChange({
+      ...settings,
+      hourlyDistribution: settings.hourlyDistribution.map((weight, index) => (index === hour ? value : weight))
+    });
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <Users className="mr-2 text-cyan-400" />
+          {t('capacity.title')}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          {t('capacity.enable')}
+        </label>
+      </div>
+
+      {enabled && capacity && (
+        <>
+          <div className="grid md:grid-cols-5 gap-4 mb-6">
+            <NumberField
+              label={t('capacity.attendants')}
+              value={settings.attendants}
+              rule={{ min: 0, max: 500, step: 1, integer: true }}
+              onChange={(value) => setSetting('attendants', value)}
+            />
+            <NumberField
+              label={t('capacity.handleTime')}
+              value={settings.handleTimeMinutes}
+              rule={{ min: 0.5, max: 240, step: 0.5 }}
+              onChange={(value) => setSetting('handleTimeMinutes', value)}
+            />
+            <NumberField
+              label={t('capacity.shiftStart')}
+              value={settings.shiftStartHour}
+              rule={HOUR_RULE}
+              onChange={(value) => setSetting('shiftStartHour', value)}
+            />
+            <NumberField
+              label={t('capacity.shiftEnd')}
+              value={settings.shiftEndHour}
+              rule={HOUR_RULE}
+              onChange={(value) => setSetting('shiftEndHour', value)}
+            />
+            <NumberField
+              label={t('capacity.target')}
+              value={settings.targetResponseTime}
+              rule={{ min: 0, max: MAX_WAIT_MINUTES, step: 1 }}
+              onChange={(value) => setSetting('targetResponseTime', value)}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mb-6">
+            {t('capacity.note')}
+          </p>
+
+          <div className="grid md:grid-cols-4 gap-4 mb-6">
+            <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('capacity.averageWait')}</p>
+              <p className={`text-2xl font-bold ${capacity.isOverloaded ? 'text-red-400' : 'text-gray-200'}`}>
+                {formatWait(capacity.averageWaitMinutes)}
+              </p>
+              {capacity.isOverloaded && <p className="text-xs text-red-400">{t('capacity.overloaded')}</p>}
+            </div>
+            <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('capacity.occupancy')}</p>
+              <p className="text-2xl font-bold text-gray-200">{formatPercent(capacity.occupancy)}</p>
+            </div>
+            <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('capacity.requiredAttendants')}</p>
+              <p className="text-2xl font-bold text-gray-200">
+                {capacity.requiredAttendants === null ? t('capacity.unreachable') : capacity.requiredAttendants}
+              </p>
+            </div>
+            <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('capacity.afterHours')}</p>
+              <p className="text-2xl font-bold text-red-400">{t('capacity.perMonth', { value: formatNumber(capacity.afterHoursContactsPerMonth) })}</p>
+              <p className="text-xs text-gray-500">{t('capacity.ofTotal', { value: formatPercent(capacity.afterHoursShare * 100) })}</p>
+            </div>
+          </div>
+
+          <h3 className="font-semibold text-gray-200 mb-2">{t('capacity.distribution')}</h3>
+          <div className="grid grid-cols-6 md:grid-cols-12 gap-2">
+            {capacity.hourly.map((item) => (
+              <div key={item.hour} className="text-center">
+                <p className="text-xs text-gray-400 mb-1">{item.hour}h</p>
+                <NumberField
+                  compact
+                  label={`${item.hour}h`}
+                  value={settings.hourlyDistribution[item.hour]}
+                  rule={{ min: 0, max: 1000, step: 1 }}
+                  onChange={(value) => setHourWeight(item.hour, value)}
+                />
+                <p className="text-[10px] text-gray-500 mt-1">
+                  {item.hour >= settings.shiftStartHour && item.hour < settings.shiftEndHour
+                    ? formatWait(item.waitMinutes)
+                    : t('capacity.closed')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CapacityPanel;
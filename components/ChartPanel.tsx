@@ -0,0 +1,401 @@
+import { useRef, useState } from 'react';
+import { BarChart3, Download, Image } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+  Plugin,
+  TooltipItem,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { Scenario, ScenarioResult } from '../lib/calculator';
+import {
+  buildFunnel,
+  buildRevenueCostChartData,
+  buildRevenueWaterfall,
+  funnelToSheet,
+  MODE_COLORS,
+  MODE_LABEL_KEYS,
+  ModeMetrics,
+  revenueCostToSheet,
+  scenarioModes,
+  waterfallToSheet,
+  whatIfToSheet,
+} from '../lib/chartData';
+import { MessageKey } from '../lib/i18n';
+import { SavedScenario } from '../lib/scenarioStore';
+import { SheetRows, toCsv } from '../lib/spreadsheet';
+import { hasSufficientData } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface ChartPanelProps {
+  scenario: Scenario;
+  humanMetrics: ScenarioResult;
+  aiMetrics: ScenarioResult;
+  hybridMetrics: ScenarioResult;
+  savedScenarios: SavedScenario[];
+}
+
+type ChartTab = 'funnel' | 'revenueCost' | 'waterfall' | 'whatIf';
+
+const TABS: { key: ChartTab; labelKey: MessageKey; descriptionKey: MessageKey }[] = [
+  { key: 'funnel', labelKey: 'charts.tab.funnel', descriptionKey: 'charts.funnel.description' },
+  { key: 'revenueCost', labelKey: 'charts.tab.revenueCost', descriptionKey: 'charts.revenueCost.description' },
+  { key: 'waterfall', labelKey: 'charts.tab.waterfall', descriptionKey: 'charts.waterfall.description' },
+  { key: 'whatIf', labelKey: 'charts.tab.whatIf', descriptionKey: 'charts.whatIf.description' },
+];
+
+// The canvas is transparent by default, which turns the exported PNG's light labels unreadable
+const panelBackground: Plugin<'bar'> = {
+  id: 'panelBackground',
+  beforeDraw: (chart) => {
+    const { ctx } = chart;
+    ctx.save();
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, chart.width, chart.height);
+    ctx.restore();
+  },
+};
+
+const axisStyle = {
+  grid: {
+    color: 'rgba(107, 114, 128, 0.1)',
+  },
+  ticks: {
+    color: '#e5e7eb',
+  },
+};
+
+function download(href: string, fileName: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  link.click();
+}
+
+function ChartPanel({ scenario, humanMetrics, aiMetrics, hybridMetrics, savedScenarios }: ChartPanelProps) {
+  const { t, formatCompactCurrency, formatCurrency, formatNumber } = useI18n();
+  const [tab, setTab] = useState<ChartTab>('funnel');
+  const [comparedId, setComparedId] = useState<string | null>(null);
+  const [showCompared, setShowCompared] = useState(false);
+  const activeTab = TABS.find((item) => item.key === tab) ?? TABS[0];
+  const chartRef = useRef<ChartJS<'bar'>>(null);
+
+  const modes: ModeMetrics[] = [
+    { mode: 'human', metrics: humanMetrics },
+    { mode: 'ai', metrics: aiMetrics },
+    { mode: 'hybrid', metrics: hybridMetrics },
+  ];
+  const funnel = buildFunnel(scenario, modes);
+  const waterfall = buildRevenueWaterfall(scenario, humanMetrics, aiMetrics);
+  const isSufficient = modes.every(({ metrics }) => hasSufficientData(metrics));
+  // Falls back to the first saved scenario, also when the selected one is deleted
+  const compared = savedScenarios.find((item) => item.id === comparedId) ?? savedScenarios[0] ?? null;
+  const comparedModes = compared ? scenarioModes(compared.scenario) : null;
+
+  const currencyAxis = {
+    ...axisStyle,
+    ticks: {
+      color: '#e5e7eb',
+      callback: (value: string | number) => formatCompactCurrency(Number(value)),
+    },
+  };
+
+  const legend = {
+    position: 'top' as const,
+    labels: {
+      color: '#e5e7eb',
+      // Each mode has a count and a revenue dataset in the funnel; only one legend entry per mode
+      filter: (item: { datasetIndex?: number }) => item.datasetIndex === undefined || item.datasetIndex < modes.length,
+    },
+  };
+
+  // Counts and money sit on separate axes, so the revenue bars no longer flatten the conversions; skipNull keeps
+  // the empty half of each pair from reserving space in its group
+  const funnelData = {
+    labels: [t('charts.funnel.contacts'), t('charts.funnel.responded'), t('charts.funnel.conversions'), t('charts.funnel.revenue')],
+    datasets: [
+      ...funnel.map((row) => ({
+        label: t(MODE_LABEL_KEYS[row.mode]),
+        data: [row.contacts, row.respondedContacts, row.conversions, null],
+        yAxisID: 'y',
+        backgroundColor: `rgba(${MODE_COLORS[row.mode]}, 0.5)`,
+        borderColor: `rgba(${MODE_COLORS[row.mode]}, 1)`,
+        borderWidth: 1,
+        skipNull: true,
+      })),
+      ...funnel.map((row) => ({
+        label: t(MODE_LABEL_KEYS[row.mode]),
+        data: [null, null, null, row.revenue],
+        yAxisID: 'revenue',
+        backgroundColor: `rgba(${MODE_COLORS[row.mode]}, 0.5)`,
+        borderColor: `rgba(${MODE_COLORS[row.mode]}, 1)`,
+        borderWidth: 1,
+        skipNull: true,
+      })),
+    ],
+  };
+
+  const funnelOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend,
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => `${context.dataset.label}: ${
+            context.dataset.yAxisID === 'revenue' ? formatCurrency(context.parsed.y) : formatNumber(context.parsed.y)
+          }`,
+        },
+      },
+    },
+    scales: {
+      x: axisStyle,
+      y: {
+        ...axisStyle,
+        position: 'left' as const,
+        title: { display: true, text: t('charts.funnel.countAxis'), color: '#9ca3af' },
+      },
+      revenue: {
+        ...currencyAxis,
+        position: 'right' as const,
+        grid: { drawOnChartArea: false },
+        title: { display: true, text: t('charts.funnel.revenueAxis'), color: '#9ca3af' },
+      },
+    },
+  };
+
+  const revenueCostData = buildRevenueCostChartData(modes, t);
+
+  const revenueCostOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => `${context.dataset.label}: ${formatCurrency(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      x: axisStyle,
+      y: currencyAxis,
+    },
+  };
+
+  // Same datasets and labels in both states, so Chart.js moves the existing bars instead of redrawing the chart
+  const whatIfData = buildRevenueCostChartData(showCompared && comparedModes ? comparedModes : modes, t);
+  // The axis spans both scenarios, otherwise it would rescale on every switch and hide how far the bars moved
+  const whatIfValues = [...modes, ...(comparedModes ?? [])].flatMap(({ metrics }) => [
+    metrics.revenue,
+    metrics.monthlyCost,
+    metrics.revenue - metrics.monthlyCost,
+  ]);
+  const whatIfOptions = {
+    ...revenueCostOptions,
+    animation: {
+      duration: 900,
+      easing: 'easeInOutCubic' as const,
+    },
+    scales: {
+      x: axisStyle,
+      y: {
+        ...currencyAxis,
+        suggestedMin: Math.min(0, ...whatIfValues),
+        suggestedMax: Math.max(0, ...whatIfValues),
+      },
+    },
+  };
+  const profitChanges = comparedModes
+    ? modes.map(({ mode, metrics }, index) => ({
+        mode,
+        value: comparedModes[index].metrics.revenue - comparedModes[index].metrics.monthlyCost - (metrics.revenue - metrics.monthlyCost),
+      }))
+    : [];
+
+  const stepColor = (index: number) => {
+    const step = waterfall[index];
+    if (step.isTotal) return index === 0 ? MODE_COLORS.human : MODE_COLORS.ai;
+    return step.value >= 0 ? '45, 212, 191' : '251, 191, 36';
+  };
+
+  const waterfallData = {
+    labels: waterfall.map((step) => t(step.labelKey)),
+    datasets: [
+      {
+        label: t('charts.waterfall.label'),
+        data: waterfall.map((step): [number, number] => [step.start, step.end]),
+        backgroundColor: waterfall.map((_, index) => `rgba(${stepColor(index)}, 0.5)`),
+        borderColor: waterfall.map((_, index) => `rgba(${stepColor(index)}, 1)`),
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const waterfallOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => formatCurrency(waterfall[context.dataIndex].value),
+        },
+      },
+    },
+    scales: {
+      x: axisStyle,
+      y: currencyAxis,
+    },
+  };
+
+  const sheets: Record<ChartTab, () => SheetRows> = {
+    funnel: () => funnelToSheet(funnel, t),
+    revenueCost: () => revenueCostToSheet(modes, t),
+    waterfall: () => waterfallToSheet(waterfall, t),
+    whatIf: () => whatIfToSheet(modes, comparedModes ?? [], t),
+  };
+  const canExport = isSufficient && (tab !== 'whatIf' || comparedModes !== null);
+  const fileName = `${t('charts.fileName')}-${tab}`;
+
+  const exportImage = () => {
+    const dataUrl = chartRef.current?.toBase64Image('image/png', 1);
+    if (dataUrl) download(dataUrl, `${fileName}.png`);
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([toCsv(sheets[tab]())], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    download(url, `${fileName}.csv`);
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClassName = 'flex items-center px-3 py-1.5 rounded-md border border-gray-700 text-sm text-gray-300 hover:bg-gray-700/50 disabled:opacity-50';
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <BarChart3 className="mr-2 text-cyan-400" />
+          {t('charts.title')}
+        </h2>
+        <div className="flex gap-2">
+          <button type="button" onClick={exportImage} disabled={!canExport} className={buttonClassName}>
+            <Image className="w-4 h-4 mr-2" />
+            {t('charts.exportImage')}
+          </button>
+          <button type="button" onClick={exportCsv} disabled={!canExport} className={buttonClassName}>
+            <Download className="w-4 h-4 mr-2" />
+            {t('charts.exportCsv')}
+          </button>
+        </div>
+      </div>
+
+      <div role="tablist" className="flex flex-wrap gap-2 mb-4 border-b border-gray-700">
+        {TABS.map((item) => (
+          <button
+            key={item.key}
+            type="button"
+            role="tab"
+            aria-selected={tab === item.key}
+            onClick={() => setTab(item.key)}
+            className={`px-4 py-2 -mb-px text-sm border-b-2 ${
+              tab === item.key ? 'border-cyan-400 text-cyan-300' : 'border-transparent text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {t(item.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      {!isSufficient ? (
+        <div className="h-[400px] flex flex-col items-center justify-center text-center">
+          <p className="font-semibold text-amber-300">{t('results.insufficientData')}</p>
+          <p className="text-sm text-gray-400 mt-1">{t('results.insufficientDataHint')}</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-4">{t(activeTab.descriptionKey)}</p>
+          {tab === 'whatIf' && compared && (
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <label htmlFor="what-if-scenario" className="text-sm text-gray-300">
+                {t('charts.whatIf.compareWith')}
+              </label>
+              <select
+                id="what-if-scenario"
+                value={compared.id}
+                onChange={(e) => setComparedId(e.target.value)}
+                className="p-1.5 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-200"
+              >
+                {savedScenarios.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+              <div role="group" className="flex rounded-md border border-gray-700 overflow-hidden">
+                {[false, true].map((isCompared) => (
+                  <button
+                    key={String(isCompared)}
+                    type="button"
+                    aria-pressed={showCompared === isCompared}
+                    onClick={() => setShowCompared(isCompared)}
+                    className={`px-3 py-1.5 text-sm ${
+                      showCompared === isCompared ? 'bg-cyan-600/30 text-cyan-200' : 'text-gray-400 hover:bg-gray-700/50'
+                    }`}
+                  >
+                    {isCompared ? compared.name : t('charts.whatIf.current')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {/* One chart instance per tab, so switching tabs does not morph one chart type into another */}
+          <div className="h-[400px]">
+            {tab === 'funnel' && <Bar key="funnel" ref={chartRef} options={funnelOptions} data={funnelData} plugins={[panelBackground]} />}
+            {tab === 'revenueCost' && (
+              <Bar key="revenueCost" ref={chartRef} options={revenueCostOptions} data={revenueCostData} plugins={[panelBackground]} />
+            )}
+            {tab === 'waterfall' && (
+              <Bar key="waterfall" ref={chartRef} options={waterfallOptions} data={waterfallData} plugins={[panelBackground]} />
+            )}
+            {tab === 'whatIf' && !compared && (
+              <div className="h-full flex items-center justify-center text-center text-sm text-gray-400">{t('charts.whatIf.noSaved')}</div>
+            )}
+            {tab === 'whatIf' && compared && (
+              <Bar key="whatIf" ref={chartRef} options={whatIfOptions} data={whatIfData} plugins={[panelBackground]} />
+            )}
+          </div>
+          {tab === 'whatIf' && compared && (
+            <div className="grid md:grid-cols-3 gap-4 mt-4">
+              {profitChanges.map(({ mode, value }) => (
+                <div key={mode} className="p-3 rounded-lg bg-gray-800/60 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('charts.whatIf.profitChange', { mode: t(MODE_LABEL_KEYS[mode]) })}</p>
+                  <p className={`text-lg font-semibold ${value >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {value > 0 ? '+' : ''}
+                    {formatCurrency(value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ChartPanel;
@@ -0,0 +1,104 @@
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  TooltipItem,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { ScenarioResult } from '../lib/calculator';
+import { buildRevenueCostChartData, ModeMetrics } from '../lib/chartData';
+import { hasSufficientData } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface ComparisonChartProps {
+  humanMetrics: ScenarioResult;
+  aiMetrics: ScenarioResult;
+  hybridMetrics?: ScenarioResult;
+  title?: string;
+}
+
+function ComparisonChart({ humanMetrics, aiMetrics, hybridMetrics, title }: ComparisonChartProps) {
+  const i18n = useI18n();
+  const modes: ModeMetrics[] = [
+    { mode: 'human', metrics: humanMetrics },
+    { mode: 'ai', metrics: aiMetrics },
+    ...(hybridMetrics ? [{ mode: 'hybrid' as const, metrics: hybridMetrics }] : []),
+  ];
+
+  // Chart.js cannot scale an axis around NaN/Infinity, so the bars are not drawn at all
+  if (!modes.every(({ metrics }) => hasSufficientData(metrics))) {
+    return (
+      <div className="h-[400px] flex flex-col items-center justify-center text-center">
+        <p className="font-semibold text-amber-300">{i18n.t('results.insufficientData')}</p>
+        <p className="text-sm text-gray-400 mt-1">{i18n.t('results.insufficientDataHint')}</p>
+      </div>
+    );
+  }
+
+  const chartData = buildRevenueCostChartData(modes, i18n.t);
+
+  const chartOptions = {
+    responsive: true,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+      title: {
+        display: true,
+        text: title ?? i18n.t('chart.title'),
+        color: '#e5e7eb',
+        font: {
+          size: 16,
+        },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => `${context.dataset.label}: ${i18n.formatCurrency(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+          callback: (value: string | number) => i18n.formatCompactCurrency(Number(value)),
+        },
+      },
+      x: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="h-[400px]">
+      <Bar options={chartOptions} data={chartData} />
+    </div>
+  );
+}
+
+export default ComparisonChart;
@@ -0,0 +1,246 @@
+import { Plus, Trash2, TrendingDown } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import {
+  ConversionCurve,
+  CurveBreakpoint,
+  CURVE_PRESETS,
+  findPresetId,
+  getConversionRate,
+  InterpolationMode,
+  sortBreakpoints,
+} from '../lib/conversionCurve';
+import { ASSUMPTION_RULES, PERCENT_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface ConversionCurveEditorProps {
+  curve: ConversionCurve;
+  humanResponseTime: number;
+  aiResponseTime: number;
+  onChange: (curve: ConversionCurve) => void;
+}
+
+const CHART_SAMPLES = 200;
+
+function ConversionCurveEditor({ curve, humanResponseTime, aiResponseTime, onChange }: ConversionCurveEditorProps) {
+  const { t } = useI18n();
+  const presetId = findPresetId(curve) ?? 'custom';
+
+  const updateBreakpoint = (index: number, changes: Partial<CurveBreakpoint>) =>
+    onChange({
+      ...curve,
+      breakpoints: curve.breakpoints.map((point, i) => (i === index ? { ...point, ...changes } : point))
+    });
+
+  const addBreakpoint = () => {
+    const last = sortBreakpoints(curve.breakpoints).pop();
+    onChange({
+      ...curve,
+      breakpoints: [
+        ...curve.breakpoints,
+        { maxMinutes: last ? last.maxMinutes * 2 : 1, conversionRate: last ? last.conversionRate : 0 }
+      ]
+    });
+  };
+
+  const removeBreakpoint = (index: number) =>
+    onChange({ ...curve, breakpoints: curve.breakpoints.filter((_, i) => i !== index) });
+
+  const selectPreset = (id: string) => {
+    const preset = CURVE_PRESETS.find((item) => item.id === id);
+    if (preset) onChange(preset.curve);
+  };
+
+  const lastBreakpoint = Math.max(0, ...curve.breakpoints.map((point) => point.maxMinutes));
+  const maxMinutes = Math.max(lastBreakpoint, humanResponseTime, aiResponseTime, 1) * 1.1;
+  const curvePoints = Array.from({ length: CHART_SAMPLES + 1 }, (_, i) => {
+    const x = (maxMinutes * i) / CHART_SAMPLES;
+    return { x, y: getConversionRate(curve, x) };
+  });
+  const marker = (minutes: number) => [{ x: minutes, y: getConversionRate(curve, minutes) }];
+
+  const chartData = {
+    datasets: [
+      {
+        label: t('curve.chart.curve'),
+        data: curvePoints,
+        borderColor: 'rgba(34, 211, 238, 1)',
+        backgroundColor: 'rgba(34, 211, 238, 0.2)',
+        pointRadius: 0,
+        borderWidth: 2,
+      },
+      {
+        label: t('mode.human'),
+        data: marker(humanResponseTime),
+        borderColor: 'rgba(239, 68, 68, 1)',
+        backgroundColor: 'rgba(239, 68, 68, 1)',
+        pointRadius: 7,
+        showLine: false,
+      },
+      {
+        label: t('mode.ai'),
+        data: marker(aiResponseTime),
+        borderColor: 'rgba(34, 197, 94, 1)',
+        backgroundColor: 'rgba(34, 197, 94, 1)',
+        pointRadius: 7,
+        showLine: false,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        max: maxMinutes,
+        title: {
+          display: true,
+          text: t('curve.chart.responseTime'),
+          color: '#9ca3af',
+        },
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+      y: {
+        min: 0,
+        title: {
+          display: true,
+          text: t('curve.conversionPercent'),
+          color: '#9ca3af',
+        },
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+        <TrendingDown className="mr-2 text-cyan-400" />
+        {t('curve.title')}
+      </h2>
+      <div className="grid md:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">{t('curve.segment')}</label>
+              <select
+                value={presetId}
+                onChange={(e) => selectPreset(e.target.value)}
+                className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              >
+                {CURVE_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{t(preset.nameKey)}</option>
+                ))}
+                {presetId === 'custom' && <option value="custom">{t('curve.custom')}</option>}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">{t('curve.interpolation')}</label>
+              <select
+                value={curve.interpolation}
+                onChange={(e) => onChange({ ...curve, interpolation: e.target.value as InterpolationMode })}
+                className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+              >
+                <option value="step">{t('curve.interpolation.step')}</option>
+                <option value="linear">{t('curve.interpolation.linear')}</option>
+              </select>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="pb-2 font-medium">{t('curve.upToMinutes')}</th>
+                <th className="pb-2 font-medium">{t('curve.conversionPercent')}</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {curve.breakpoints.map((point, index) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <NumberField
+                      compact
+                      label={t('curve.upToMinutes')}
+                      value={point.maxMinutes}
+                      rule={ASSUMPTION_RULES.aiResponseTime}
+                      onChange={(value) => updateBreakpoint(index, { maxMinutes: value })}
+                    />
+                  </td>
+                  <td className="pr-2 py-1">
+                    <NumberField
+                      compact
+                      label={t('curve.conversionPercent')}
+                      value={point.conversionRate}
+                      rule={PERCENT_RULE}
+                      onChange={(value) => updateBreakpoint(index, { conversionRate: value })}
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeBreakpoint(index)}
+                      disabled={curve.breakpoints.length <= 1}
+                      className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                      title={t('curve.removeBreakpoint')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            onClick={addBreakpoint}
+            className="flex items-center text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t('curve.addBreakpoint')}
+          </button>
+          <p className="text-xs text-gray-500">
+            {t('curve.note')}
+          </p>
+        </div>
+
+        <div className="h-[360px]">
+          <Line options={chartOptions} data={chartData} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConversionCurveEditor;
@@ -0,0 +1,244 @@
+import { Plus, Receipt, Trash2 } from 'lucide-react';
+import { Scenario } from '../lib/calculator';
+import {
+  AiBillingUnit,
+  AiCostBreakdown,
+  AiPlanTier,
+  CostBreakdown,
+  estimateAiCost,
+  HumanCostBreakdown,
+  humanMonthlyCost,
+} from '../lib/costModel';
+import { FieldRule, PERCENT_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+interface CostBreakdownPanelProps {
+  enabled: boolean;
+  costs: CostBreakdown;
+  scenario: Scenario;
+  onEnabledChange: (enabled: boolean) => void;
+  onCostsChange: (costs: CostBreakdown) => void;
+}
+
+const MONEY_RULE: FieldRule = { min: 0, max: 100000000, step: 100 };
+const RATE_RULE: FieldRule = { min: 0, max: 1000, step: 0.1 };
+
+const selectClassName = 'w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+function CostBreakdownPanel({ enabled, costs, scenario, onEnabledChange, onCostsChange }: CostBreakdownPanelProps) {
+  const { t, formatCurrency, formatNumber } = useI18n();
+  const aiEstimate = estimateAiCost(costs.ai, scenario);
+
+  const setHuman = (key: keyof HumanCostBreakdown, value: number) =>
+    onCostsChange({ ...costs, human: { ...costs.human, [key]: value } });
+  const setAi = (changes: Partial<AiCostBreakdown>) =>
+    onCostsChange({ ...costs, ai: { ...costs.ai, ...changes } });
+  const updateTier = (index: number, changes: Partial<AiPlanTier>) =>
+    setAi({ tiers: costs.ai.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) });
+
+  const addTier = () => {
+    const last = costs.ai.tiers[costs.ai.tiers.length - 1];
+    setAi({
+      tiers: [...costs.ai.tiers, {
+        name: t('costs.ai.newTier', { number: costs.ai.tiers.length + 1 }),
+        monthlyFee: last ? last.monthlyFee * 2 : 0,
+        includedUnits: last ? last.includedUnits * 2 : 0,
+        overageRate: last?.overageRate ?? 0
+      }]
+    });
+  };
+
+  const unitLabel = costs.ai.billingUnit === 'message' ? t('costs.ai.unit.message') : t('costs.ai.unit.conversation');
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <Receipt className="mr-2 text-cyan-400" />
+          {t('costs.title')}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          {t('costs.enable')}
+        </label>
+      </div>
+
+      {enabled && (
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <h3 className="font-semibold text-gray-200">{t('costs.human.title')}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <NumberField
+                label={t('costs.human.baseSalary')}
+                value={costs.human.baseSalary}
+                rule={MONEY_RULE}
+                onChange={(value) => setHuman('baseSalary', value)}
+              />
+              <NumberField
+                label={t('costs.human.benefitsPerMonth')}
+                value={costs.human.benefitsPerMonth}
+                rule={MONEY_RULE}
+                onChange={(value) => setHuman('benefitsPerMonth', value)}
+              />
+              <NumberField
+                label={t('costs.human.inssRate')}
+                value={costs.human.inssRate}
+                rule={PERCENT_RULE}
+                onChange={(value) => setHuman('inssRate', value)}
+              />
+              <NumberField
+                label={t('costs.human.fgtsRate')}
+                value={costs.human.fgtsRate}
+                rule={PERCENT_RULE}
+                onChange={(value) => setHuman('fgtsRate', value)}
+              />
+              <NumberField
+                label={t('costs.human.trainingPerYear')}
+                value={costs.human.trainingPerYear}
+                rule={MONEY_RULE}
+                onChange={(value) => setHuman('trainingPerYear', value)}
+              />
+              <NumberField
+                label={t('costs.human.annualTurnoverRate')}
+                value={costs.human.annualTurnoverRate}
+                rule={{ min: 0, max: 500, step: 5 }}
+                onChange={(value) => setHuman('annualTurnoverRate', value)}
+              />
+              <NumberField
+                label={t('costs.human.replacementCost')}
+                value={costs.human.replacementCost}
+                rule={MONEY_RULE}
+                onChange={(value) => setHuman('replacementCost', value)}
+              />
+            </div>
+            <p className="text-xs text-gray-500">{t('costs.human.note')}</p>
+            <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('costs.human.total')}</p>
+              <p className="text-2xl font-bold text-red-400">{formatCurrency(humanMonthlyCost(costs.human))}</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold text-gray-200">{t('costs.ai.title')}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('costs.ai.billingUnit')}</label>
+                <select
+                  value={costs.ai.billingUnit}
+                  onChange={(e) => setAi({ billingUnit: e.target.value as AiBillingUnit })}
+                  className={selectClassName}
+                >
+                  <option value="conversation">{t('costs.ai.perConversation')}</option>
+                  <option value="message">{t('costs.ai.perMessage')}</option>
+                </select>
+              </div>
+              <NumberField
+                label={t('costs.ai.messagesPerConversation')}
+                value={costs.ai.messagesPerConversation}
+                rule={{ min: 1, max: 1000, step: 1 }}
+                disabled={costs.ai.billingUnit !== 'message'}
+                onChange={(value) => setAi({ messagesPerConversation: value })}
+              />
+              <NumberField
+                label={t('costs.ai.setupFee')}
+                value={costs.ai.setupFee}
+                rule={MONEY_RULE}
+                hint={t('costs.ai.setupFeeHint')}
+                onChange={(value) => setAi({ setupFee: value })}
+              />
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="pb-2 font-medium">{t('costs.ai.tier')}</th>
+                  <th className="pb-2 font-medium">{t('costs.ai.monthlyFee')}</th>
+                  <th className="pb-2 font-medium">{t('costs.ai.includedUnits', { unit: unitLabel })}</th>
+                  <th className="pb-2 font-medium">{t('costs.ai.overageRate', { unit: unitLabel })}</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {costs.ai.tiers.map((tier, index) => (
+                  <tr key={index} className={tier === aiEstimate.tier ? 'text-teal-300' : undefined}>
+                    <td className="pr-2 py-1">
+                      <input
+                        type="text"
+                        value={tier.name}
+                        aria-label={t('costs.ai.tier')}
+                        onChange={(e) => updateTier(index, { name: e.target.value })}
+                        className="w-full p-1 text-sm bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <NumberField
+                        compact
+                        label={t('costs.ai.monthlyFee')}
+                        value={tier.monthlyFee}
+                        rule={MONEY_RULE}
+                        onChange={(value) => updateTier(index, { monthlyFee: value })}
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <NumberField
+                        compact
+                        label={t('costs.ai.includedUnits', { unit: unitLabel })}
+                        value={tier.includedUnits}
+                        rule={{ min: 0, max: 100000000, step: 100, integer: true }}
+                        onChange={(value) => updateTier(index, { includedUnits: value })}
+                      />
+                    </td>
+                    <td className="pr-2 py-1">
+                      <NumberField
+                        compact
+                        label={t('costs.ai.overageRate', { unit: unitLabel })}
+                        value={tier.overageRate}
+                        rule={RATE_RULE}
+                        onChange={(value) => updateTier(index, { overageRate: value })}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setAi({ tiers: costs.ai.tiers.filter((_, i) => i !== index) })}
+                        disabled={costs.ai.tiers.length <= 1}
+                        className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                        title={t('costs.ai.removeTier')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={addTier}
+              className="flex items-center text-sm text-cyan-400 hover:text-cyan-300"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {t('costs.ai.addTier')}
+            </button>
+
+            <div className="p-3 rounded-lg bg-gray-800/50 border border-gray-700">
+              <p className="text-sm text-gray-400">{t('costs.ai.total')}</p>
+              <p className="text-2xl font-bold text-emerald-400">{formatCurrency(aiEstimate.total)}</p>
+              <p className="text-xs text-gray-500">
+                {t('costs.ai.volume', { count: formatNumber(aiEstimate.units), unit: unitLabel, tier: aiEstimate.tier?.name ?? '—' })}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CostBreakdownPanel;
@@ -0,0 +1,106 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { MetricsType, ScenarioResult } from '../lib/calculator';
+import { buildEmbedResult, EmbedResult } from '../lib/embed';
+import { DEFAULT_SCENARIO } from '../lib/scenarioStore';
+import { METRIC_RULES } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+interface EmbedCalculatorProps {
+  initialMetrics: MetricsType;
+  onResult: (result: EmbedResult) => void;
+}
+
+function ModeSummary({ title, result, color }: { title: string; result: ScenarioResult; color: string }) {
+  const { t, formatCurrency } = useI18n();
+  const rows = [
+    { label: t('metrics.revenue'), value: result.revenue },
+    { label: t('metrics.monthlyCost'), value: result.monthlyCost },
+    { label: t('metrics.lostRevenue'), value: result.lostRevenue },
+    { label: t('metrics.annualProfit'), value: result.annualProfit },
+  ];
+
+  return (
+    <div className="p-3 rounded-[var(--pfixo-radius)] border border-[color:var(--pfixo-border)] bg-[color:var(--pfixo-surface)]">
+      <h3 className={`font-semibold mb-2 ${color}`}>{title}</h3>
+      <dl className="space-y-1 text-sm">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <dt className="text-[color:var(--pfixo-muted)]">{row.label}</dt>
+            <dd className="font-semibold">{formatCurrency(row.value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+// Compact calculator for the embeddable build: the main inputs and the human/AI comparison, themed by CSS variables
+function EmbedCalculator({ initialMetrics, onResult }: EmbedCalculatorProps) {
+  const { t, formatCurrency } = useI18n();
+  const [metrics, setMetrics] = useState<MetricsType>(initialMetrics);
+
+  const result = useMemo(() => buildEmbedResult({ ...DEFAULT_SCENARIO, metrics }), [metrics]);
+
+  useEffect(() => {
+    onResult(result);
+  }, [result, onResult]);
+
+  const setMetric = (key: keyof MetricsType, value: number) => setMetrics({ ...metrics, [key]: value });
+
+  return (
+    <div className="pfixo-embed p-4 rounded-[var(--pfixo-radius)] border border-[color:var(--pfixo-border)] bg-[color:var(--pfixo-background)] text-[color:var(--pfixo-text)] [font-family:var(--pfixo-font)]">
+      <h2 className="text-lg font-semibold mb-4 flex items-center text-[color:var(--pfixo-accent)]">
+        <Calculator className="w-5 h-5 mr-2" />
+        {t('app.title')}
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <NumberField
+          label={t('inputs.contactsPerDay')}
+          value={metrics.contactsPerDay}
+          rule={METRIC_RULES.contactsPerDay}
+          onChange={(value) => setMetric('contactsPerDay', value)}
+        />
+        <NumberField
+          label={t('inputs.responseTime')}
+          value={metrics.responseTime}
+          rule={METRIC_RULES.responseTime}
+          onChange={(value) => setMetric('responseTime', value)}
+        />
+        <NumberField
+          label={t('inputs.ticketValue')}
+          value={metrics.ticketValue}
+          rule={METRIC_RULES.ticketValue}
+          onChange={(value) => setMetric('ticketValue', value)}
+        />
+        <NumberField
+          label={t('inputs.humanMonthlyCost')}
+          value={metrics.humanMonthlyCost}
+          rule={METRIC_RULES.humanMonthlyCost}
+          onChange={(value) => setMetric('humanMonthlyCost', value)}
+        />
+      </div>
+
+      {result.sufficientData ? (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <ModeSummary title={t('mode.human')} result={result.human} color="text-[color:var(--pfixo-human)]" />
+            <ModeSummary title={t('mode.ai')} result={result.ai} color="text-[color:var(--pfixo-ai)]" />
+          </div>
+          <p className="mt-3 text-sm text-center">
+            {t(result.annualProfitGain >= 0 ? 'embed.gain' : 'embed.loss', { value: formatCurrency(Math.abs(result.annualProfitGain)) })}
+          </p>
+        </>
+      ) : (
+        <div className="text-sm text-center">
+          <p className="font-semibold">{t('results.insufficientData')}</p>
+          <p className="text-[color:var(--pfixo-muted)] mt-1">{t('results.insufficientDataHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EmbedCalculator;
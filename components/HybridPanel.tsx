@@ -0,0 +1,143 @@
+import { GitMerge } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { AssumptionsType, Scenario, sweepHybridHandoff } from '../lib/calculator';
+import { ASSUMPTION_RULES } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface HybridPanelProps {
+  scenario: Scenario;
+  onAssumptionsChange: (changes: Partial<AssumptionsType>) => void;
+}
+
+function HybridPanel({ scenario, onAssumptionsChange }: HybridPanelProps) {
+  const { t, formatCurrency, formatPercent } = useI18n();
+  const { assumptions } = scenario;
+  const sweep = sweepHybridHandoff(scenario);
+  const bestPoint = sweep.reduce((best, point) => (point.profit > best.profit ? point : best), sweep[0]);
+
+  const setAssumption = (key: keyof AssumptionsType, value: number) =>
+    onAssumptionsChange({ [key]: value });
+
+  const chartData = {
+    labels: sweep.map((point) => formatPercent(point.handoffRate * 100)),
+    datasets: [
+      {
+        label: t('metrics.revenue'),
+        data: sweep.map((point) => point.revenue),
+        borderColor: 'rgba(52, 211, 153, 1)',
+        backgroundColor: 'rgba(52, 211, 153, 0.2)',
+        pointRadius: 2,
+        borderWidth: 2,
+      },
+      {
+        label: t('metrics.monthlyCost'),
+        data: sweep.map((point) => point.monthlyCost),
+        borderColor: 'rgba(248, 113, 113, 1)',
+        backgroundColor: 'rgba(248, 113, 113, 0.2)',
+        pointRadius: 2,
+        borderWidth: 2,
+      },
+      {
+        label: t('hybrid.profit'),
+        data: sweep.map((point) => point.profit),
+        borderColor: 'rgba(56, 189, 248, 1)',
+        backgroundColor: 'rgba(56, 189, 248, 0.2)',
+        pointRadius: 2,
+        borderWidth: 2,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+    scales: {
+      y: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+          callback: (value: string | number) => formatCurrency(Number(value)),
+        },
+      },
+      x: {
+        title: {
+          display: true,
+          text: t('hybrid.chart.handoff'),
+          color: '#9ca3af',
+        },
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(56,189,248,0.15)] border border-gray-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-cyan-400 flex items-center">
+        <GitMerge className="mr-2 text-sky-400" />
+        {t('hybrid.title')}
+      </h2>
+      <div className="grid md:grid-cols-3 gap-8">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">
+              {t('hybrid.handoffRate', { rate: formatPercent(assumptions.hybridHandoffRate * 100) })}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={Math.round(assumptions.hybridHandoffRate * 100)}
+              onChange={(e) => setAssumption('hybridHandoffRate', Number(e.target.value) / 100)}
+              className="w-full accent-sky-500"
+            />
+          </div>
+          <NumberField
+            label={t('hybrid.humanResponseTime')}
+            value={assumptions.hybridHumanResponseTime}
+            rule={ASSUMPTION_RULES.hybridHumanResponseTime}
+            onChange={(value) => setAssumption('hybridHumanResponseTime', value)}
+          />
+          <div className="p-3 rounded-lg bg-sky-900/20 border border-sky-800/40 text-sm">
+            <p className="text-gray-400">{t('hybrid.bestHandoff')}:</p>
+            <p className="font-semibold text-sky-300">
+              {t('hybrid.bestHandoffValue', { rate: formatPercent(bestPoint.handoffRate * 100), profit: formatCurrency(bestPoint.profit) })}
+            </p>
+          </div>
+        </div>
+        <div className="md:col-span-2 h-[420px]">
+          <Line options={chartOptions} data={chartData} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HybridPanel;
@@ -0,0 +1,27 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { createI18n, loadLocaleSettings, LocaleSettings, saveLocaleSettings } from '../lib/i18n';
+import { I18nContext } from '../hooks/useI18n';
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+function I18nProvider({ children }: I18nProviderProps) {
+  const [settings, setSettings] = useState<LocaleSettings>(loadLocaleSettings);
+  const [settingsSaveFailed, setSettingsSaveFailed] = useState(false);
+
+  useEffect(() => {
+    setSettingsSaveFailed(!saveLocaleSettings(settings));
+    document.documentElement.lang = settings.locale;
+  }, [settings]);
+
+  const value = useMemo(() => ({
+    ...createI18n(settings.locale, settings.currency, settings.exchangeRate),
+    setLocaleSettings: setSettings,
+    settingsSaveFailed
+  }), [settings, settingsSaveFailed]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
@@ -0,0 +1,150 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { CheckCircle, Send } from 'lucide-react';
+import { Scenario, ScenarioResult } from '../lib/calculator';
+import {
+  EMPTY_LEAD_CONTACT,
+  LeadContact,
+  LeadSubmitError,
+  LeadSubmitStatus,
+  QueuedLeadAdapter,
+  validateLeadContact,
+} from '../lib/leadCapture';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface LeadCaptureFormProps {
+  scenario: Scenario;
+  humanMetrics: ScenarioResult;
+  aiMetrics: ScenarioResult;
+  adapter: QueuedLeadAdapter;
+}
+
+type TextField = Exclude<keyof LeadContact, 'consent'>;
+
+const FIELDS: { key: TextField; labelKey: MessageKey; type: string; inputMode?: 'tel' | 'email'; autoComplete: string }[] = [
+  { key: 'name', labelKey: 'leads.name', type: 'text', autoComplete: 'name' },
+  { key: 'clinic', labelKey: 'leads.clinic', type: 'text', autoComplete: 'organization' },
+  { key: 'phone', labelKey: 'leads.phone', type: 'tel', inputMode: 'tel', autoComplete: 'tel' },
+  { key: 'email', labelKey: 'leads.email', type: 'email', inputMode: 'email', autoComplete: 'email' },
+];
+
+function LeadCaptureForm({ scenario, humanMetrics, aiMetrics, adapter }: LeadCaptureFormProps) {
+  const { t, locale } = useI18n();
+  const [contact, setContact] = useState<LeadContact>(EMPTY_LEAD_CONTACT);
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<LeadSubmitStatus | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Leads queued while offline go out as soon as the page is open and online again
+  useEffect(() => {
+    const flush = () => {
+      adapter.flush().catch(() => undefined);
+    };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [adapter]);
+
+  const errors = validateLeadContact(contact);
+  const setField = (key: TextField, value: string) => setContact({ ...contact, [key]: value });
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSending(true);
+    setSubmitError(null);
+    try {
+      const result = await adapter.submit({
+        contact: { ...contact, name: contact.name.trim(), clinic: contact.clinic.trim(), email: contact.email.trim() },
+        consentText: t('leads.consentText'),
+        locale,
+        submittedAt: new Date().toISOString(),
+        scenario,
+        humanMetrics,
+        aiMetrics
+      });
+      setStatus(result);
+    } catch (error) {
+      setSubmitError(error instanceof LeadSubmitError ? t(error.messageKey, error.params) : t('leads.error.generic'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-lg shadow-[0_0_15px_rgba(20,184,166,0.15)] border border-slate-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-2 text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-cyan-400 flex items-center">
+        <Send className="mr-2 text-teal-400" />
+        {t('leads.title')}
+      </h2>
+
+      {status ? (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-teal-900/20 border border-teal-800/40 mt-4">
+          <CheckCircle className="w-6 h-6 text-teal-400 flex-shrink-0" />
+          <div>
+            <p className="font-semibold text-gray-200">{t(status === 'sent' ? 'leads.sent' : 'leads.queued')}</p>
+            <p className="text-sm text-gray-400">
+              {t(status === 'sent' ? 'leads.sentText' : 'leads.queuedText', { email: contact.email.trim() })}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={submit} noValidate>
+          <p className="text-sm text-gray-400 mb-6">{t('leads.description')}</p>
+          <div className="grid md:grid-cols-2 gap-4 mb-4">
+            {FIELDS.map((field) => (
+              <div key={field.key}>
+                <label htmlFor={`lead-${field.key}`} className="block text-sm font-medium text-gray-300 mb-1">
+                  {t(field.labelKey)}
+                </label>
+                <input
+                  id={`lead-${field.key}`}
+                  type={field.type}
+                  inputMode={field.inputMode}
+                  autoComplete={field.autoComplete}
+                  value={contact[field.key]}
+                  placeholder={field.key === 'phone' ? '(11) 98765-4321' : undefined}
+                  aria-invalid={showErrors && errors[field.key] !== undefined}
+                  onChange={(e) => setField(field.key, e.target.value)}
+                  className={`w-full p-2 bg-gray-800 border rounded-md text-gray-200 focus:ring-2 focus:border-transparent ${
+                    showErrors && errors[field.key] ? 'border-red-500 focus:ring-red-500' : 'border-gray-700 focus:ring-cyan-500'
+                  }`}
+                />
+                {showErrors && errors[field.key] && (
+                  <p className="text-xs text-red-400 mt-1">{t(errors[field.key] as MessageKey)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-300 mb-1">
+            <input
+              type="checkbox"
+              checked={contact.consent}
+              onChange={(e) => setContact({ ...contact, consent: e.target.checked })}
+              className="accent-teal-500 mt-1"
+            />
+            <span>{t('leads.consentText')}</span>
+          </label>
+          {showErrors && errors.consent && <p className="text-xs text-red-400 mb-1">{t(errors.consent)}</p>}
+          <p className="text-xs text-gray-500 mt-2 mb-6">{t('leads.privacyNote')}</p>
+
+          <button
+            type="submit"
+            disabled={isSending}
+            className="flex items-center justify-center px-4 py-2 rounded-md bg-teal-600 hover:bg-teal-500 text-white disabled:opacity-50"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSending ? t('leads.sending') : t('leads.submit')}
+          </button>
+          {submitError && <p className="text-sm text-red-400 mt-3">{submitError}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default LeadCaptureForm;
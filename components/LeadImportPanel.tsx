@@ -0,0 +1,258 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, FileSpreadsheet } from 'lucide-react';
+import { DEFAULT_CAPACITY_SETTINGS } from '../lib/capacity';
+import { MetricsType } from '../lib/calculator';
+import { ConversionCurve } from '../lib/conversionCurve';
+import {
+  analyzeLeadHistory,
+  BusinessHours,
+  ColumnMapping,
+  guessColumnMapping,
+  LEAD_COLUMNS,
+  LeadColumn,
+  metricsFromLeadHistory,
+  parseLeadRows,
+  REQUIRED_LEAD_COLUMNS,
+} from '../lib/leadHistory';
+import { MessageKey } from '../lib/i18n';
+import { readSpreadsheetFile, SheetRows, SpreadsheetError } from '../lib/spreadsheet';
+import { HOUR_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+interface LeadImportPanelProps {
+  curve: ConversionCurve;
+  onApply: (changes: Partial<MetricsType>) => void;
+}
+
+const COLUMN_LABELS: Record<LeadColumn, MessageKey> = {
+  firstMessageAt: 'import.column.firstMessageAt',
+  firstReplyAt: 'import.column.firstReplyAt',
+  converted: 'import.column.converted',
+  ticketValue: 'import.column.ticketValue',
+};
+
+// Long files would flood the panel; the total count is still shown
+const MAX_LISTED_ERRORS = 20;
+
+const selectClassName = 'w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+function LeadImportPanel({ curve, onApply }: LeadImportPanelProps) {
+  const { t, formatCurrency, formatNumber, formatPercent } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<SheetRows | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>({
+    startHour: DEFAULT_CAPACITY_SETTINGS.shiftStartHour,
+    endHour: DEFAULT_CAPACITY_SETTINGS.shiftEndHour
+  });
+
+  const isMappingComplete = mapping !== null && REQUIRED_LEAD_COLUMNS.every((column) => mapping[column] !== null);
+  const parsed = useMemo(
+    () => (rows && mapping && isMappingComplete ? parseLeadRows(rows, mapping) : null),
+    [rows, mapping, isMappingComplete]
+  );
+  const analysis = parsed ? analyzeLeadHistory(parsed.records, curve, businessHours) : null;
+
+  const selectFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const sheet = await readSpreadsheetFile(file);
+      setRows(sheet);
+      setMapping(guessColumnMapping(sheet[0]));
+      setFileName(file.name);
+      setFileError(null);
+    } catch (error) {
+      setRows(null);
+      setMapping(null);
+      setFileName(null);
+      setFileError(error instanceof SpreadsheetError ? t(error.messageKey, error.params) : t('import.error.read'));
+    }
+  };
+
+  const setColumn = (column: LeadColumn, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [column]: value === '' ? null : Number(value) });
+  };
+
+  const bucketLabel = (fromMinutes: number, toMinutes: number | null) =>
+    toMinutes === null
+      ? t('import.bucketOver', { from: formatNumber(fromMinutes, 1) })
+      : t('import.bucketRange', { from: formatNumber(fromMinutes, 1), to: formatNumber(toMinutes, 1) });
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <FileSpreadsheet className="mr-2 text-cyan-400" />
+          {t('import.title')}
+        </h2>
+        {isOpen ? <ChevronUp className="text-gray-400" /> : <ChevronDown className="text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-6 space-y-6">
+          <div>
+            <p className="text-sm text-gray-400 mb-3">{t('import.description')}</p>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={selectFile}
+              className="w-full text-sm text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-gray-700 file:text-gray-200"
+            />
+            {fileName && rows && (
+              <p className="text-xs text-gray-500 mt-1">{t('import.fileSummary', { name: fileName, rows: formatNumber(rows.length - 1) })}</p>
+            )}
+            {fileError && <p className="text-sm text-red-400 mt-2">{fileError}</p>}
+          </div>
+
+          {rows && mapping && (
+            <div>
+              <h3 className="font-semibold text-gray-200 mb-3">{t('import.mapping')}</h3>
+              <div className="grid md:grid-cols-4 gap-4">
+                {LEAD_COLUMNS.map((column) => (
+                  <div key={column}>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      {t(COLUMN_LABELS[column])}
+                      {!REQUIRED_LEAD_COLUMNS.includes(column) && <span className="text-gray-500"> {t('import.optional')}</span>}
+                    </label>
+                    <select
+                      value={mapping[column] ?? ''}
+                      onChange={(e) => setColumn(column, e.target.value)}
+                      className={selectClassName}
+                    >
+                      <option value="">{t('import.notMapped')}</option>
+                      {rows[0].map((header, index) => (
+                        <option key={index} value={index}>{header || t('import.unnamedColumn', { number: index + 1 })}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {!isMappingComplete && <p className="text-sm text-amber-400 mt-3">{t('import.mappingIncomplete')}</p>}
+            </div>
+          )}
+
+          {parsed && parsed.errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-900/20 border border-red-800/40 text-sm">
+              <p className="text-red-300 font-semibold mb-2">
+                {t('import.rowErrors', { count: formatNumber(parsed.errors.length), valid: formatNumber(parsed.records.length) })}
+              </p>
+              <ul className="space-y-1 text-red-200/80">
+                {parsed.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                  <li key={error.row}>{t('import.rowError', { row: error.row, message: t(error.messageKey, error.params) })}</li>
+                ))}
+              </ul>
+              {parsed.errors.length > MAX_LISTED_ERRORS && (
+                <p className="text-xs text-gray-400 mt-2">
+                  {t('import.moreErrors', { count: formatNumber(parsed.errors.length - MAX_LISTED_ERRORS) })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {parsed && !analysis && <p className="text-sm text-red-400">{t('import.error.noValidRows')}</p>}
+
+          {analysis && (
+            <>
+              <div className="grid md:grid-cols-4 gap-4">
+                <NumberField
+                  label={t('import.businessStart')}
+                  value={businessHours.startHour}
+                  rule={HOUR_RULE}
+                  onChange={(value) => setBusinessHours({ ...businessHours, startHour: value })}
+                />
+                <NumberField
+                  label={t('import.businessEnd')}
+                  value={businessHours.endHour}
+                  rule={HOUR_RULE}
+                  onChange={(value) => setBusinessHours({ ...businessHours, endHour: value })}
+                />
+              </div>
+
+              <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4">
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('inputs.contactsPerDay')}</p>
+                  <p className="text-2xl font-bold text-gray-200">{formatNumber(analysis.contactsPerDay, 1)}</p>
+                  <p className="text-xs text-gray-500">{t('import.leadsOverDays', { leads: formatNumber(analysis.leads), days: analysis.days })}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('import.averageResponse')}</p>
+                  <p className="text-2xl font-bold text-gray-200">{formatNumber(analysis.averageResponseTime, 1)} min</p>
+                  <p className="text-xs text-gray-500">
+                    {t('import.responsePercentiles', { median: formatNumber(analysis.medianResponseTime, 1), p90: formatNumber(analysis.p90ResponseTime, 1) })}
+                  </p>
+                </div>
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('import.unanswered')}</p>
+                  <p className="text-2xl font-bold text-red-400">{formatPercent(analysis.unansweredShare * 100)}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('metrics.conversionRate')}</p>
+                  <p className="text-2xl font-bold text-gray-200">{formatPercent(analysis.conversionRate)}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('import.afterHours')}</p>
+                  <p className="text-2xl font-bold text-gray-200">{formatPercent(analysis.afterHoursShare * 100)}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700">
+                  <p className="text-sm text-gray-400">{t('proposal.ticketValue')}</p>
+                  <p className="text-2xl font-bold text-emerald-400">
+                    {analysis.averageTicket === null ? '—' : formatCurrency(analysis.averageTicket)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="pb-2 font-medium">{t('import.table.responseTime')}</th>
+                      <th className="pb-2 text-right font-medium">{t('import.table.leads')}</th>
+                      <th className="pb-2 text-right font-medium">{t('metrics.conversions')}</th>
+                      <th className="pb-2 text-right font-medium">{t('import.table.observed')}</th>
+                      <th className="pb-2 text-right font-medium">{t('import.table.curve')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-300">
+                    {analysis.buckets.map((bucket) => (
+                      <tr key={bucket.fromMinutes} className="border-t border-gray-700/60">
+                        <td className="py-1">{bucketLabel(bucket.fromMinutes, bucket.toMinutes)}</td>
+                        <td className="py-1 text-right">{formatNumber(bucket.leads)}</td>
+                        <td className="py-1 text-right">{formatNumber(bucket.conversions)}</td>
+                        <td className="py-1 text-right font-semibold">{bucket.leads > 0 ? formatPercent(bucket.conversionRate) : '—'}</td>
+                        <td className="py-1 text-right text-gray-400">{formatPercent(bucket.curveConversionRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => onApply(metricsFromLeadHistory(analysis))}
+                  className="inline-flex items-center justify-center px-4 py-2 rounded-md bg-teal-600 hover:bg-teal-500 text-white"
+                >
+                  {t('import.apply')}
+                </button>
+                <p className="text-xs text-gray-500">{t('import.applyHint')}</p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LeadImportPanel;
@@ -0,0 +1,58 @@
+import { Globe } from 'lucide-react';
+import { CURRENCIES, CurrencyCode, DEFAULT_EXCHANGE_RATES, Locale, LOCALES } from '../lib/i18n';
+import { EXCHANGE_RATE_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+const selectClassName = 'p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+function LocaleSwitcher() {
+  const { t, locale, currency, exchangeRate, setLocaleSettings, settingsSaveFailed } = useI18n();
+
+  const selectCurrency = (next: CurrencyCode) =>
+    setLocaleSettings({ locale, currency: next, exchangeRate: DEFAULT_EXCHANGE_RATES[next] });
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-4 text-sm text-gray-300">
+      <Globe className="w-4 h-4 text-cyan-400" />
+      <select
+        value={locale}
+        onChange={(e) => setLocaleSettings({ locale: e.target.value as Locale, currency, exchangeRate })}
+        aria-label={t('locale.language')}
+        className={selectClassName}
+      >
+        {LOCALES.map((item) => (
+          <option key={item.value} value={item.value}>{item.label}</option>
+        ))}
+      </select>
+      <select
+        value={currency}
+        onChange={(e) => selectCurrency(e.target.value as CurrencyCode)}
+        aria-label={t('locale.currency')}
+        className={selectClassName}
+      >
+        {CURRENCIES.map((code) => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+      </select>
+      {currency !== 'BRL' && (
+        <div className="flex items-start gap-2" title={t('locale.exchangeRateHint')}>
+          <span className="py-1">1 BRL =</span>
+          <div className="w-28">
+            <NumberField
+              compact
+              label={t('locale.exchangeRate')}
+              value={exchangeRate}
+              rule={EXCHANGE_RATE_RULE}
+              onChange={(value) => setLocaleSettings({ locale, currency, exchangeRate: value })}
+            />
+          </div>
+          <span className="py-1">{currency}</span>
+        </div>
+      )}
+      {settingsSaveFailed && <span className="text-xs text-amber-300">{t('locale.saveError')}</span>}
+    </div>
+  );
+}
+
+export default LocaleSwitcher;
@@ -0,0 +1,108 @@
+import { AlertTriangle, Notebook as Robot, User, Users } from 'lucide-react';
+import { ScenarioResult } from '../lib/calculator';
+import { MessageKey } from '../lib/i18n';
+import { ModeUncertainty, Percentiles } from '../lib/monteCarlo';
+import { hasSufficientData } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+
+export type ServiceMode = 'human' | 'ai' | 'hybrid';
+
+interface MetricsCardProps {
+  metrics: ScenarioResult;
+  mode: ServiceMode;
+  uncertainty?: ModeUncertainty;
+}
+
+const MODE_STYLES: Record<ServiceMode, { titleKey: MessageKey; card: string; heading: string; icon: JSX.Element }> = {
+  human: {
+    titleKey: 'mode.human',
+    card: 'shadow-lg border border-gray-700',
+    heading: 'text-gray-200',
+    icon: <User className="w-12 h-12 text-red-500" />,
+  },
+  ai: {
+    titleKey: 'mode.ai',
+    card: 'shadow-[0_0_20px_rgba(34,197,94,0.2)] border border-green-900',
+    heading: 'text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-green-500',
+    icon: <Robot className="w-12 h-12 text-green-500" />,
+  },
+  hybrid: {
+    titleKey: 'mode.hybrid',
+    card: 'shadow-[0_0_20px_rgba(56,189,248,0.2)] border border-sky-900',
+    heading: 'text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-cyan-400',
+    icon: <Users className="w-12 h-12 text-sky-400" />,
+  },
+};
+
+function PercentileRange({ values }: { values?: Percentiles }) {
+  const { formatCompactCurrency } = useI18n();
+  if (!values) return null;
+  return (
+    <p className="text-xs text-gray-500">
+      P10 {formatCompactCurrency(values.p10)} · P50 {formatCompactCurrency(values.p50)} · P90 {formatCompactCurrency(values.p90)}
+    </p>
+  );
+}
+
+function MetricsCard({ metrics, mode, uncertainty }: MetricsCardProps) {
+  const { t, formatCurrency, formatNumber, formatPercent } = useI18n();
+  const style = MODE_STYLES[mode];
+
+  return (
+    <div className={`bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg ${style.card}`}>
+      <div className="flex items-center justify-center mb-4">
+        {style.icon}
+      </div>
+      <h3 className={`text-xl font-semibold text-center mb-4 ${style.heading}`}>{t(style.titleKey)}</h3>
+      {!hasSufficientData(metrics) ? (
+        <div className="p-3 rounded-lg bg-amber-900/20 border border-amber-800/40 text-sm text-center">
+          <AlertTriangle className="w-5 h-5 text-amber-400 mx-auto mb-2" />
+          <p className="font-semibold text-amber-300">{t('results.insufficientData')}</p>
+          <p className="text-xs text-gray-400 mt-1">{t('results.insufficientDataHint')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.attendances')}:</p>
+            <p className="font-semibold text-gray-200">{formatNumber(metrics.respondedContacts)}</p>
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.conversionRate')}:</p>
+            <p className="font-semibold text-gray-200">{formatPercent(metrics.conversionRate)}</p>
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.conversions')}:</p>
+            <p className="font-semibold text-gray-200">{metrics.conversions}</p>
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.revenue')}:</p>
+            <p className="font-semibold text-emerald-400 text-lg">{formatCurrency(metrics.revenue)}</p>
+            <PercentileRange values={uncertainty?.revenue} />
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.monthlyCost')}:</p>
+            <p className="font-semibold text-red-400">{formatCurrency(metrics.monthlyCost)}</p>
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.costPerAttendance')}:</p>
+            <p className="font-semibold text-red-400">{formatCurrency(metrics.costPerAttendance)}</p>
+          </div>
+          <div className="text-sm">
+            <p className="text-gray-400">{t('metrics.lostRevenue')}:</p>
+            <p className="font-semibold text-red-400">{formatCurrency(metrics.lostRevenue)}</p>
+            <PercentileRange values={uncertainty?.lostRevenue} />
+          </div>
+          {uncertainty && (
+            <div className="text-sm">
+              <p className="text-gray-400">{t('metrics.annualProfit')}:</p>
+              <p className="font-semibold text-emerald-400">{formatCurrency(metrics.annualProfit)}</p>
+              <PercentileRange values={uncertainty.annualProfit} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MetricsCard;
@@ -0,0 +1,92 @@
+import { KeyboardEvent, useState } from 'react';
+import { clampToRule, FieldError, FieldRule, validateNumber } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  rule?: FieldRule;
+  disabled?: boolean;
+  hint?: string;
+  // Table cells: no visible label, smaller padding
+  compact?: boolean;
+}
+
+const MAX_FRACTION_DIGITS = 4;
+
+// Parents often store a scaled copy (percent as a fraction), so the value can come back with float noise
+const isSameValue = (a: number, b: number) =>
+  Object.is(a, b) || Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+function NumberField({ label, value, onChange, rule = {}, disabled, hint, compact }: NumberFieldProps) {
+  const { t, formatNumber, parseNumber } = useI18n();
+  // While the user types, the raw text is kept; the parent only receives valid numbers
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<FieldError | null>(null);
+  const [emitted, setEmitted] = useState(value);
+
+  // A value set from outside (scenario loaded, link opened, import applied) replaces whatever is being typed
+  if (!isSameValue(value, emitted)) {
+    setEmitted(value);
+    setDraft(null);
+    setError(null);
+  }
+
+  const emit = (next: number) => {
+    setEmitted(next);
+    onChange(next);
+  };
+
+  const update = (text: string) => {
+    setDraft(text);
+    const result = validateNumber(text, rule, parseNumber);
+    setError(result.error);
+    if (result.error === null) emit(result.value);
+  };
+
+  const stepValue = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    const step = rule.step ?? 1;
+    const next = clampToRule(value + (e.key === 'ArrowUp' ? step : -step), rule);
+    setDraft(null);
+    setError(null);
+    emit(Math.round(next * 10 ** MAX_FRACTION_DIGITS) / 10 ** MAX_FRACTION_DIGITS);
+  };
+
+  const errorParams = error?.params && Object.fromEntries(
+    Object.entries(error.params).map(([name, param]) => [name, typeof param === 'number' ? formatNumber(param, MAX_FRACTION_DIGITS) : param])
+  );
+  const padding = compact ? 'p-1 text-sm' : 'p-2';
+  const border = error ? 'border-red-500 focus:ring-red-500' : 'border-gray-700 focus:ring-cyan-500';
+
+  return (
+    <div>
+      {!compact && (
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          {label}
+        </label>
+      )}
+      <input
+        type="text"
+        inputMode="decimal"
+        aria-label={compact ? label : undefined}
+        aria-invalid={error !== null}
+        value={draft ?? (Number.isFinite(value) ? formatNumber(value, MAX_FRACTION_DIGITS) : '')}
+        disabled={disabled}
+        onChange={(e) => update(e.target.value)}
+        onKeyDown={stepValue}
+        onBlur={() => {
+          // Valid text is reformatted; invalid text stays so the message still points at it
+          if (error === null) setDraft(null);
+        }}
+        className={`w-full ${padding} bg-gray-800 border ${border} rounded-md text-gray-200 focus:ring-2 focus:border-transparent disabled:opacity-50`}
+      />
+      {error && <p className="text-xs text-red-400 mt-1">{t(error.messageKey, errorParams)}</p>}
+      {hint && !error && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+export default NumberField;
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { LineChart } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Scenario } from '../lib/calculator';
+import {
+  DEFAULT_PROJECTION_SETTINGS,
+  MAX_PROJECTION_MONTHS,
+  MIN_PROJECTION_MONTHS,
+  ProjectionSettings,
+  projectScenario,
+} from '../lib/projection';
+import { PERCENT_RULE } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface ProjectionPanelProps {
+  scenario: Scenario;
+  // Set when the detailed cost model is on, which then owns the setup fee
+  setupFee?: number;
+}
+
+function ProjectionPanel({ scenario, setupFee }: ProjectionPanelProps) {
+  const { t, formatCurrency, formatNumber, formatPercent } = useI18n();
+  const [ownSettings, setSettings] = useState<ProjectionSettings>(DEFAULT_PROJECTION_SETTINGS);
+  const settings = setupFee === undefined ? ownSettings : { ...ownSettings, setupFee };
+  const projection = projectScenario(scenario, settings);
+
+  const setSetting = (key: keyof ProjectionSettings, value: number) =>
+    setSettings({ ...ownSettings, [key]: value });
+
+  const chartData = {
+    labels: projection.months.map((item) => t('projection.month', { month: item.month })),
+    datasets: [
+      {
+        label: t('projection.cumulativeSavings'),
+        data: projection.months.map((item) => item.cumulativeSavings),
+        borderColor: 'rgba(45, 212, 191, 1)',
+        backgroundColor: 'rgba(45, 212, 191, 0.2)',
+        pointRadius: 2,
+        borderWidth: 2,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+    scales: {
+      y: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+          callback: (value: string | number) => formatCurrency(Number(value)),
+        },
+      },
+      x: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-lg shadow-[0_0_15px_rgba(20,184,166,0.15)] border border-slate-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-cyan-400 flex items-center">
+        <LineChart className="mr-2 text-teal-400" />
+        {t('projection.title')}
+      </h2>
+
+      <div className="grid md:grid-cols-4 gap-4 mb-6">
+        <NumberField
+          label={t('projection.months', { min: MIN_PROJECTION_MONTHS, max: MAX_PROJECTION_MONTHS })}
+          value={settings.months}
+          rule={{ min: MIN_PROJECTION_MONTHS, max: MAX_PROJECTION_MONTHS, step: 1, integer: true }}
+          onChange={(value) => setSetting('months', value)}
+        />
+        <NumberField
+          label={t('projection.setupFee')}
+          value={settings.setupFee}
+          rule={{ min: 0, max: 100000000, step: 100 }}
+          disabled={setupFee !== undefined}
+          hint={setupFee !== undefined ? t('projection.setupFeeFromCosts') : undefined}
+          onChange={(value) => setSetting('setupFee', value)}
+        />
+        <NumberField
+          label={t('projection.rampUpMonths')}
+          value={settings.rampUpMonths}
+          rule={{ min: 0, max: MAX_PROJECTION_MONTHS, step: 1, integer: true }}
+          onChange={(value) => setSetting('rampUpMonths', value)}
+        />
+        <NumberField
+          label={t('projection.rampUpStartPercent')}
+          value={settings.rampUpStartPercent}
+          rule={PERCENT_RULE}
+          onChange={(value) => setSetting('rampUpStartPercent', value)}
+        />
+        <NumberField
+          label={t('projection.monthlyLeadGrowth')}
+          value={settings.monthlyLeadGrowth}
+          rule={{ min: -100, max: 100, step: 0.1 }}
+          onChange={(value) => setSetting('monthlyLeadGrowth', value)}
+        />
+        <NumberField
+          label={t('projection.annualPriceAdjustment')}
+          value={settings.annualPriceAdjustment}
+          rule={{ min: -100, max: 100, step: 0.1 }}
+          onChange={(value) => setSetting('annualPriceAdjustment', value)}
+        />
+        <NumberField
+          label={t('projection.annualDiscountRate')}
+          value={settings.annualDiscountRate}
+          rule={{ min: 0, max: 100, step: 0.1 }}
+          onChange={(value) => setSetting('annualDiscountRate', value)}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 rounded-lg bg-gradient-to-br from-teal-900/30 to-emerald-900/20 border border-teal-800/30">
+          <p className="text-sm text-gray-400">{t('projection.payback')}</p>
+          <p className="text-2xl font-bold text-emerald-400">
+            {projection.paybackMonth === null ? t('projection.paybackNotReached') : t('projection.month', { month: projection.paybackMonth })}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg bg-gradient-to-br from-teal-900/30 to-emerald-900/20 border border-teal-800/30">
+          <p className="text-sm text-gray-400">{t('projection.roi')}</p>
+          <p className="text-2xl font-bold text-emerald-400">{formatPercent(projection.roi)}</p>
+        </div>
+        <div className="p-4 rounded-lg bg-gradient-to-br from-teal-900/30 to-emerald-900/20 border border-teal-800/30">
+          <p className="text-sm text-gray-400">{t('projection.npv')}</p>
+          <p className="text-2xl font-bold text-emerald-400">{formatCurrency(projection.npv)}</p>
+        </div>
+      </div>
+
+      <div className="h-[320px] mb-6">
+        <Line options={chartOptions} data={chartData} />
+      </div>
+
+      <div className="max-h-96 overflow-auto rounded-lg border border-slate-700">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-800 text-gray-400">
+            <tr>
+              <th className="p-2 text-left font-medium">{t('projection.table.month')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.contactsPerDay')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.aiConversion')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.humanProfit')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.aiProfit')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.savings')}</th>
+              <th className="p-2 text-right font-medium">{t('projection.table.cumulative')}</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-300">
+            {projection.months.map((item) => (
+              <tr key={item.month} className="border-t border-slate-700/60">
+                <td className="p-2">{item.month}</td>
+                <td className="p-2 text-right">{formatNumber(item.contactsPerDay, 1)}</td>
+                <td className="p-2 text-right">{formatPercent(item.aiConversionRate)}</td>
+                <td className="p-2 text-right">{formatCurrency(item.humanRevenue - item.humanCost)}</td>
+                <td className="p-2 text-right">{formatCurrency(item.aiRevenue - item.aiCost)}</td>
+                <td className="p-2 text-right">{formatCurrency(item.savings)}</td>
+                <td className={`p-2 text-right font-semibold ${item.cumulativeSavings >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {formatCurrency(item.cumulativeSavings)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default ProjectionPanel;
@@ -0,0 +1,163 @@
+import { ChangeEvent, useState } from 'react';
+import { createPortal, flushSync } from 'react-dom';
+import { FileDown, FileText, Printer, X } from 'lucide-react';
+import { calculateMetrics, Scenario } from '../lib/calculator';
+import { renderComparisonChartImage } from '../lib/chartImage';
+import { jpegFromDataUrl, PdfImage } from '../lib/pdf';
+import { buildProposal } from '../lib/proposal';
+import { renderProposalPdf } from '../lib/proposalPdf';
+import { useI18n } from '../hooks/useI18n';
+import ProposalReport from './ProposalReport';
+
+interface ProposalExportProps {
+  scenario: Scenario;
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// The PDF writer only embeds JPEG, so logos in other formats are redrawn on a white canvas
+function loadLogoAsJpeg(dataUrl: string, errorMessage: string): Promise<PdfImage> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error(errorMessage));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0);
+      resolve(jpegFromDataUrl(canvas.toDataURL('image/jpeg', 0.92), canvas.width, canvas.height));
+    };
+    image.onerror = () => reject(new Error(errorMessage));
+    image.src = dataUrl;
+  });
+}
+
+function ProposalExport({ scenario }: ProposalExportProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isOpen, setIsOpen] = useState(false);
+  const [clientName, setClientName] = useState('');
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [chartUrl, setChartUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const proposal = buildProposal(scenario, clientName.trim(), i18n);
+
+  const renderChart = () =>
+    renderComparisonChartImage(calculateMetrics(scenario, false), calculateMetrics(scenario, true), i18n);
+
+  const selectLogo = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setLogoUrl(file ? await readFileAsDataUrl(file) : null);
+  };
+
+  const print = () => {
+    // The report must hold the fresh chart before the print dialog snapshots the page
+    flushSync(() => setChartUrl(renderChart().dataUrl));
+    window.print();
+  };
+
+  const downloadPdf = async () => {
+    try {
+      const chart = renderChart();
+      const blob = renderProposalPdf(proposal, t, {
+        logo: logoUrl ? await loadLogoAsJpeg(logoUrl, t('proposal.logoError')) : undefined,
+        chart: jpegFromDataUrl(chart.dataUrl, chart.width, chart.height)
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${t('proposal.fileName')}-${clientName.trim().toLowerCase().replace(/\s+/g, '-') || t('proposal.fileNameFallback')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (exception) {
+      setError(exception instanceof Error ? exception.message : t('proposal.pdfError'));
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="inline-flex items-center px-4 py-2 rounded-md border border-cyan-700 text-cyan-300 hover:bg-cyan-900/30"
+      >
+        <FileText className="w-4 h-4 mr-2" />
+        {t('proposal.export')}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 print:hidden">
+          <div className="w-full max-w-md bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg border border-gray-700 text-left">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400">
+                {t('proposal.export')}
+              </h2>
+              <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('proposal.clientName')}</label>
+                <input
+                  type="text"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">{t('proposal.logo')}</label>
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/svg+xml"
+                  onChange={selectLogo}
+                  className="w-full text-sm text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-gray-700 file:text-gray-200"
+                />
+                {logoUrl && <img src={logoUrl} alt="" className="mt-2 max-h-12 object-contain" />}
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={print}
+                  className="flex-1 inline-flex items-center justify-center px-4 py-2 rounded-md border border-cyan-700 text-cyan-300 hover:bg-cyan-900/30"
+                >
+                  <Printer className="w-4 h-4 mr-2" />
+                  {t('proposal.print')}
+                </button>
+                <button
+                  type="button"
+                  onClick={downloadPdf}
+                  className="flex-1 inline-flex items-center justify-center px-4 py-2 rounded-md bg-teal-600 hover:bg-teal-500 text-white"
+                >
+                  <FileDown className="w-4 h-4 mr-2" />
+                  {t('proposal.downloadPdf')}
+                </button>
+              </div>
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {createPortal(<ProposalReport data={proposal} logoUrl={logoUrl} chartUrl={chartUrl} />, document.body)}
+    </>
+  );
+}
+
+export default ProposalExport;
@@ -0,0 +1,90 @@
+import { ProposalComparisonRow, ProposalData, ProposalRow } from '../lib/proposal';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProposalReportProps {
+  data: ProposalData;
+  logoUrl: string | null;
+  chartUrl: string | null;
+}
+
+function KeyValueTable({ rows }: { rows: ProposalRow[] }) {
+  return (
+    <table className="w-full text-sm mb-6">
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-b border-gray-200">
+            <td className="py-1 pr-4 text-gray-500">{row.label}</td>
+            <td className="py-1 text-right font-semibold">{row.value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ComparisonTable({ rows }: { rows: ProposalComparisonRow[] }) {
+  const { t } = useI18n();
+  return (
+    <table className="w-full text-sm mb-6">
+      <thead>
+        <tr className="border-b-2 border-gray-300 text-left">
+          <th className="py-1 font-semibold text-gray-500">{t('proposal.indicator')}</th>
+          <th className="py-1 text-right font-semibold text-red-600">{t('mode.human')}</th>
+          <th className="py-1 text-right font-semibold text-green-600">{t('mode.ai')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-b border-gray-200">
+            <td className="py-1">{row.label}</td>
+            <td className="py-1 text-right">{row.human}</td>
+            <td className="py-1 text-right font-semibold">{row.ai}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Print-only layout; the dark calculator UI is hidden while printing
+function ProposalReport({ data, logoUrl, chartUrl }: ProposalReportProps) {
+  const { t } = useI18n();
+  return (
+    <div className="hidden print:block bg-white text-gray-800 p-8">
+      <header className="flex items-start justify-between border-b-2 border-teal-600 pb-4 mb-6">
+        {logoUrl ? <img src={logoUrl} alt="" className="max-h-16 max-w-[180px] object-contain" /> : <div />}
+        <div className="text-right">
+          <h1 className="text-2xl font-bold">{t('proposal.title')}</h1>
+          {data.clientName && <p className="text-lg">{data.clientName}</p>}
+          <p className="text-xs text-gray-500">{t('proposal.issuedAt', { date: data.issuedAt })}</p>
+        </div>
+      </header>
+
+      <h2 className="text-lg font-semibold text-teal-700 mb-2">{t('proposal.inputs')}</h2>
+      <KeyValueTable rows={data.inputs} />
+
+      <h2 className="text-lg font-semibold text-teal-700 mb-2">{t('proposal.monthly')}</h2>
+      <ComparisonTable rows={data.monthly} />
+
+      <h2 className="text-lg font-semibold text-teal-700 mb-2">{t('proposal.annual')}</h2>
+      <ComparisonTable rows={data.annual} />
+
+      {chartUrl && (
+        <div className="break-inside-avoid mb-6">
+          <h2 className="text-lg font-semibold text-teal-700 mb-2">{t('proposal.chart')}</h2>
+          <img src={chartUrl} alt={t('proposal.chartAlt')} className="w-full" />
+        </div>
+      )}
+
+      <footer className="break-inside-avoid">
+        <h2 className="text-lg font-semibold text-teal-700 mb-2">{t('proposal.assumptions')}</h2>
+        <KeyValueTable rows={data.assumptions} />
+        <p className="text-xs text-gray-500">
+          {t('proposal.disclaimer')}
+        </p>
+      </footer>
+    </div>
+  );
+}
+
+export default ProposalReport;
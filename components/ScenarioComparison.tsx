@@ -0,0 +1,47 @@
+import { Columns } from 'lucide-react';
+import { calculateMetrics } from '../lib/calculator';
+import { SavedScenario } from '../lib/scenarioStore';
+import { useI18n } from '../hooks/useI18n';
+import ComparisonChart from './ComparisonChart';
+import MetricsCard from './MetricsCard';
+
+interface ScenarioComparisonProps {
+  scenarios: SavedScenario[];
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+};
+
+function ScenarioComparison({ scenarios }: ScenarioComparisonProps) {
+  const { t } = useI18n();
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+        <Columns className="mr-2 text-cyan-400" />
+        {t('scenarios.comparison.title')}
+      </h2>
+      <div className={`grid gap-6 ${GRID_COLUMNS[scenarios.length] ?? ''}`}>
+        {scenarios.map((item) => {
+          const humanMetrics = calculateMetrics(item.scenario, false);
+          const aiMetrics = calculateMetrics(item.scenario, true);
+
+          return (
+            <div key={item.id} className="space-y-4">
+              <h3 className="text-xl font-semibold text-gray-200 text-center">{item.name}</h3>
+              <div className={`grid gap-4 ${scenarios.length <= 2 ? 'sm:grid-cols-2' : ''}`}>
+                <MetricsCard metrics={humanMetrics} mode="human" />
+                <MetricsCard metrics={aiMetrics} mode="ai" />
+              </div>
+              <ComparisonChart humanMetrics={humanMetrics} aiMetrics={aiMetrics} title={item.name} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default ScenarioComparison;
@@ -0,0 +1,225 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Copy, Download, FolderOpen, Save, Trash2, Upload } from 'lucide-react';
+import { Scenario } from '../lib/calculator';
+import {
+  createScenarioId,
+  exportScenarios,
+  parseScenarioFile,
+  SavedScenario,
+  ScenarioFileError,
+} from '../lib/scenarioStore';
+import { useI18n } from '../hooks/useI18n';
+
+interface ScenarioManagerProps {
+  scenarios: SavedScenario[];
+  current: Scenario;
+  activeId: string | null;
+  comparisonIds: string[];
+  saveFailed: boolean;
+  onScenariosChange: (scenarios: SavedScenario[]) => void;
+  onActivate: (saved: SavedScenario) => void;
+  onComparisonChange: (ids: string[]) => void;
+}
+
+const MAX_COMPARED_SCENARIOS = 4;
+
+function ScenarioManager({
+  scenarios,
+  current,
+  activeId,
+  comparisonIds,
+  saveFailed,
+  onScenariosChange,
+  onActivate,
+  onComparisonChange,
+}: ScenarioManagerProps) {
+  const { t, formatDateTime } = useI18n();
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const active = scenarios.find((item) => item.id === activeId);
+
+  const saveAsNew = () => {
+    const saved: SavedScenario = {
+      id: createScenarioId(),
+      name: name.trim() || t('scenarios.defaultName', { number: scenarios.length + 1 }),
+      scenario: current,
+      updatedAt: new Date().toISOString()
+    };
+    onScenariosChange([...scenarios, saved]);
+    onActivate(saved);
+    setName('');
+  };
+
+  const updateActive = () => {
+    if (!active) return;
+    onScenariosChange(scenarios.map((item) =>
+      item.id === active.id ? { ...item, scenario: current, updatedAt: new Date().toISOString() } : item
+    ));
+  };
+
+  const duplicate = (source: SavedScenario) => {
+    const copy: SavedScenario = {
+      ...source,
+      id: createScenarioId(),
+      name: t('scenarios.copyName', { name: source.name }),
+      updatedAt: new Date().toISOString()
+    };
+    onScenariosChange([...scenarios, copy]);
+  };
+
+  const remove = (id: string) => {
+    onScenariosChange(scenarios.filter((item) => item.id !== id));
+    onComparisonChange(comparisonIds.filter((item) => item !== id));
+  };
+
+  const toggleComparison = (id: string) => {
+    if (comparisonIds.includes(id)) {
+      onComparisonChange(comparisonIds.filter((item) => item !== id));
+    } else if (comparisonIds.length < MAX_COMPARED_SCENARIOS) {
+      onComparisonChange([...comparisonIds, id]);
+    }
+  };
+
+  const downloadAll = () => {
+    const blob = new Blob([exportScenarios(scenarios)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${t('scenarios.fileName')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // Imported scenarios get fresh ids so they never overwrite the local ones
+      const imported = parseScenarioFile(await file.text(), t('scenarios.unnamed'))
+        .map((item) => ({ ...item, id: createScenarioId() }));
+      onScenariosChange([...scenarios, ...imported]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof ScenarioFileError ? t(error.messageKey, error.params) : t('scenarios.error.import'));
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-lg shadow-[0_0_15px_rgba(20,184,166,0.15)] border border-slate-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-cyan-400 flex items-center">
+        <FolderOpen className="mr-2 text-teal-400" />
+        {t('scenarios.title')}
+      </h2>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <input
+          type="text"
+          value={name}
+          placeholder={t('scenarios.namePlaceholder')}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={saveAsNew}
+          className="flex items-center justify-center px-4 py-2 rounded-md bg-teal-600 hover:bg-teal-500 text-white"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('scenarios.saveNew')}
+        </button>
+        {active && (
+          <button
+            type="button"
+            onClick={updateActive}
+            className="flex items-center justify-center px-4 py-2 rounded-md border border-teal-700 text-teal-300 hover:bg-teal-900/40"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {t('scenarios.update', { name: active.name })}
+          </button>
+        )}
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-6">{t('scenarios.empty')}</p>
+      ) : (
+        <div className="space-y-2 mb-6">
+          {scenarios.map((item) => (
+            <div
+              key={item.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${
+                item.id === activeId ? 'border-teal-600 bg-teal-900/20' : 'border-slate-700 bg-slate-800/50'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={comparisonIds.includes(item.id)}
+                disabled={!comparisonIds.includes(item.id) && comparisonIds.length >= MAX_COMPARED_SCENARIOS}
+                onChange={() => toggleComparison(item.id)}
+                title={t('scenarios.compare')}
+                className="accent-teal-500"
+              />
+              <button
+                type="button"
+                onClick={() => onActivate(item)}
+                className="flex-1 text-left text-gray-200 hover:text-teal-300"
+              >
+                {item.name}
+                <span className="block text-xs text-gray-500">
+                  {t('scenarios.updatedAt', { date: formatDateTime(new Date(item.updatedAt)) })}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => duplicate(item)}
+                className="p-1 text-gray-400 hover:text-teal-300"
+                title={t('scenarios.duplicate')}
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title={t('scenarios.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            {t('scenarios.compareHint', { max: MAX_COMPARED_SCENARIOS })}
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={downloadAll}
+          disabled={scenarios.length === 0}
+          className="flex items-center px-4 py-2 rounded-md border border-slate-600 text-gray-300 hover:bg-slate-700 disabled:opacity-40"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {t('scenarios.exportJson')}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center px-4 py-2 rounded-md border border-slate-600 text-gray-300 hover:bg-slate-700"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {t('scenarios.importJson')}
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+      </div>
+      {importError && <p className="text-sm text-red-400 mt-3">{importError}</p>}
+      {saveFailed && <p className="text-sm text-amber-300 mt-3">{t('scenarios.error.save')}</p>}
+    </div>
+  );
+}
+
+export default ScenarioManager;
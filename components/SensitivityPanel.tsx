@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Activity } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { Scenario } from '../lib/calculator';
+import { I18n } from '../lib/i18n';
+import {
+  calculateHeatmap,
+  calculateProfitGap,
+  calculateTornado,
+  SENSITIVITY_VARIABLES,
+  SensitivityVariable,
+} from '../lib/sensitivity';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface SensitivityPanelProps {
+  scenario: Scenario;
+}
+
+// Lost-lead rates are stored as fractions; every other variable is shown as typed
+function formatVariableValue({ formatNumber, formatPercent }: I18n, variable: SensitivityVariable, value: number): string {
+  if (variable.key === 'humanLostLeadsRate' || variable.key === 'aiLostLeadsRate') return formatPercent(value * 100);
+  return formatNumber(value, 1);
+}
+
+function heatmapColor(profitGap: number, maxGap: number): string {
+  const intensity = maxGap > 0 ? 0.15 + 0.65 * Math.min(1, Math.abs(profitGap) / maxGap) : 0.15;
+  return profitGap >= 0 ? `rgba(34, 197, 94, ${intensity})` : `rgba(239, 68, 68, ${intensity})`;
+}
+
+const variableIndex = (key: string) => SENSITIVITY_VARIABLES.findIndex((variable) => variable.key === key);
+
+function SensitivityPanel({ scenario }: SensitivityPanelProps) {
+  const i18n = useI18n();
+  const { t, formatCompactCurrency, formatCurrency, formatNumber } = i18n;
+  const [variationPercent, setVariationPercent] = useState(20);
+  const [xIndex, setXIndex] = useState(variableIndex('contactsPerDay'));
+  const [yIndex, setYIndex] = useState(variableIndex('ticketValue'));
+
+  const baseGap = calculateProfitGap(scenario);
+  const tornado = calculateTornado(scenario, variationPercent);
+  const xVariable = SENSITIVITY_VARIABLES[xIndex];
+  const yVariable = SENSITIVITY_VARIABLES[yIndex];
+  const heatmap = calculateHeatmap(scenario, xVariable, yVariable);
+  const maxGap = Math.max(...heatmap.rows.flat().map((cell) => Math.abs(cell.profitGap)));
+
+  const chartData = {
+    labels: tornado.map((bar) => t(bar.variable.labelKey)),
+    datasets: [
+      {
+        label: `−${formatNumber(variationPercent, 1)}%`,
+        data: tornado.map((bar): [number, number] => [baseGap, bar.low]),
+        backgroundColor: 'rgba(239, 68, 68, 0.5)',
+        borderColor: 'rgba(239, 68, 68, 1)',
+        borderWidth: 1,
+      },
+      {
+        label: `+${formatNumber(variationPercent, 1)}%`,
+        data: tornado.map((bar): [number, number] => [baseGap, bar.high]),
+        backgroundColor: 'rgba(34, 197, 94, 0.5)',
+        borderColor: 'rgba(34, 197, 94, 1)',
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    datasets: {
+      bar: {
+        grouped: false,
+      },
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+          callback: (value: string | number) => formatCompactCurrency(Number(value)),
+        },
+      },
+      y: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  const selectClassName = 'w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-lg shadow-[0_0_15px_rgba(20,184,166,0.15)] border border-slate-700 mb-10">
+      <h2 className="text-2xl font-semibold mb-2 text-transparent bg-clip-text bg-gradient-to-r from-teal-400 to-cyan-400 flex items-center">
+        <Activity className="mr-2 text-teal-400" />
+        {t('sensitivity.title')}
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        {t('sensitivity.baseGap')}{' '}
+        <span className={`font-semibold ${baseGap >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{formatCurrency(baseGap)}</span>
+      </p>
+
+      <div className="grid md:grid-cols-4 gap-4 mb-4">
+        <NumberField
+          label={t('sensitivity.variation')}
+          value={variationPercent}
+          rule={{ min: 1, max: 100, step: 5 }}
+          onChange={setVariationPercent}
+        />
+      </div>
+      <div className="h-[420px] mb-8">
+        <Bar options={chartOptions} data={chartData} />
+      </div>
+
+      <h3 className="text-xl font-semibold text-gray-200 mb-4">{t('sensitivity.heatmap.title')}</h3>
+      <div className="grid md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">{t('sensitivity.heatmap.xAxis')}</label>
+          <select value={xIndex} onChange={(e) => setXIndex(Number(e.target.value))} className={selectClassName}>
+            {SENSITIVITY_VARIABLES.map((variable, index) => (
+              <option key={variable.key} value={index}>{t(variable.labelKey)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">{t('sensitivity.heatmap.yAxis')}</label>
+          <select value={yIndex} onChange={(e) => setYIndex(Number(e.target.value))} className={selectClassName}>
+            {SENSITIVITY_VARIABLES.map((variable, index) => (
+              <option key={variable.key} value={index}>{t(variable.labelKey)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-center">
+          <thead>
+            <tr>
+              <th className="p-2 text-left text-gray-400 font-medium">{t(yVariable.labelKey)} \ {t(xVariable.labelKey)}</th>
+              {heatmap.xValues.map((value, index) => (
+                <th key={index} className="p-2 text-gray-400 font-medium">{formatVariableValue(i18n, xVariable, value)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <th className="p-2 text-left text-gray-400 font-medium">{formatVariableValue(i18n, yVariable, heatmap.yValues[rowIndex])}</th>
+                {row.map((cell, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className="p-2 text-gray-100 border border-slate-900"
+                    style={{ backgroundColor: heatmapColor(cell.profitGap, maxGap) }}
+                    title={formatCurrency(cell.profitGap)}
+                  >
+                    {formatCompactCurrency(cell.profitGap)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {t('sensitivity.heatmap.note')}
+      </p>
+    </div>
+  );
+}
+
+export default SensitivityPanel;
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { Check, Link } from 'lucide-react';
+import { Scenario } from '../lib/calculator';
+import { buildShareUrl } from '../lib/urlState';
+import { useI18n } from '../hooks/useI18n';
+
+interface ShareLinkButtonProps {
+  scenario: Scenario;
+}
+
+type CopyStatus = 'idle' | 'copied' | 'failed';
+
+function ShareLinkButton({ scenario }: ShareLinkButtonProps) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<CopyStatus>('idle');
+
+  useEffect(() => {
+    if (status === 'idle') return;
+    const timeout = window.setTimeout(() => setStatus('idle'), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [status]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(scenario));
+      setStatus('copied');
+    } catch {
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={copyLink}
+      className="inline-flex items-center px-4 py-2 rounded-md border border-cyan-700 text-cyan-300 hover:bg-cyan-900/30"
+    >
+      {status === 'copied' ? <Check className="w-4 h-4 mr-2" /> : <Link className="w-4 h-4 mr-2" />}
+      {status === 'copied' ? t('share.copied') : status === 'failed' ? t('share.failed') : t('share.copy')}
+    </button>
+  );
+}
+
+export default ShareLinkButton;
@@ -0,0 +1,219 @@
+import { Dices } from 'lucide-react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { MessageKey } from '../lib/i18n';
+import {
+  DistributionShape,
+  MAX_ITERATIONS,
+  MIN_ITERATIONS,
+  SimulationResult,
+  UncertainInput,
+  UncertainVariable,
+  UncertaintySettings,
+} from '../lib/monteCarlo';
+import { FieldRule } from '../lib/validation';
+import { useI18n } from '../hooks/useI18n';
+import NumberField from './NumberField';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface UncertaintyPanelProps {
+  enabled: boolean;
+  settings: UncertaintySettings;
+  result: SimulationResult | null;
+  isRunning: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onSettingsChange: (settings: UncertaintySettings) => void;
+}
+
+const VARIABLES: { key: UncertainVariable; labelKey: MessageKey }[] = [
+  { key: 'contactsPerDay', labelKey: 'uncertainty.variable.contactsPerDay' },
+  { key: 'ticketValue', labelKey: 'uncertainty.variable.ticketValue' },
+  { key: 'humanConversionRate', labelKey: 'uncertainty.variable.humanConversionRate' },
+  { key: 'aiConversionRate', labelKey: 'uncertainty.variable.aiConversionRate' },
+  { key: 'humanLostLeadsRate', labelKey: 'uncertainty.variable.humanLostLeadsRate' },
+  { key: 'aiLostLeadsRate', labelKey: 'uncertainty.variable.aiLostLeadsRate' },
+];
+
+const SHAPES: { value: DistributionShape; labelKey: MessageKey }[] = [
+  { value: 'fixed', labelKey: 'uncertainty.shape.fixed' },
+  { value: 'uniform', labelKey: 'uncertainty.shape.uniform' },
+  { value: 'triangular', labelKey: 'uncertainty.shape.triangular' },
+  { value: 'normal', labelKey: 'uncertainty.shape.normal' },
+];
+
+// A range can go all the way down to zero but not below it
+const VARIATION_RULE: FieldRule = { min: -100, max: 1000, step: 5 };
+
+const selectClassName = 'w-full p-1 bg-gray-800 border border-gray-700 rounded-md text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-transparent';
+
+function UncertaintyPanel({ enabled, settings, result, isRunning, onEnabledChange, onSettingsChange }: UncertaintyPanelProps) {
+  const { t, formatCompactCurrency, formatCurrency, formatNumber, formatPercent } = useI18n();
+  const setInput = (key: UncertainVariable, changes: Partial<UncertainInput>) =>
+    onSettingsChange({ ...settings, [key]: { ...settings[key], ...changes } });
+
+  const chartData = {
+    labels: result?.histogram.map((bin) => formatCompactCurrency((bin.from + bin.to) / 2)) ?? [],
+    datasets: [
+      {
+        label: t('uncertainty.chart.simulations'),
+        data: result?.histogram.map((bin) => bin.count) ?? [],
+        backgroundColor: result?.histogram.map((bin) =>
+          (bin.from + bin.to) / 2 >= 0 ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)'
+        ),
+        borderWidth: 0,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+    },
+    scales: {
+      y: {
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+      x: {
+        title: {
+          display: true,
+          text: t('uncertainty.chart.profitGap'),
+          color: '#9ca3af',
+        },
+        grid: {
+          color: 'rgba(107, 114, 128, 0.1)',
+        },
+        ticks: {
+          color: '#e5e7eb',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-6 rounded-lg shadow-[0_0_15px_rgba(6,182,212,0.15)] border border-gray-700 mb-10">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400 flex items-center">
+          <Dices className="mr-2 text-cyan-400" />
+          {t('uncertainty.title')}
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          {t('uncertainty.enable')}
+        </label>
+      </div>
+
+      {enabled && (
+        <div className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="pb-2 font-medium">{t('uncertainty.variable')}</th>
+                  <th className="pb-2 font-medium">{t('uncertainty.distribution')}</th>
+                  <th className="pb-2 font-medium">{t('uncertainty.min')}</th>
+                  <th className="pb-2 font-medium">{t('uncertainty.max')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {VARIABLES.map(({ key, labelKey }) => (
+                  <tr key={key}>
+                    <td className="pr-2 py-1 text-gray-300">{t(labelKey)}</td>
+                    <td className="pr-2 py-1">
+                      <select
+                        value={settings[key].shape}
+                        onChange={(e) => setInput(key, { shape: e.target.value as DistributionShape })}
+                        className={selectClassName}
+                      >
+                        {SHAPES.map((shape) => (
+                          <option key={shape.value} value={shape.value}>{t(shape.labelKey)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="pr-2 py-1">
+                      <NumberField
+                        compact
+                        label={t('uncertainty.min')}
+                        value={settings[key].lowPercent}
+                        rule={VARIATION_RULE}
+                        disabled={settings[key].shape === 'fixed'}
+                        onChange={(value) => setInput(key, { lowPercent: value })}
+                      />
+                    </td>
+                    <td className="py-1">
+                      <NumberField
+                        compact
+                        label={t('uncertainty.max')}
+                        value={settings[key].highPercent}
+                        rule={VARIATION_RULE}
+                        disabled={settings[key].shape === 'fixed'}
+                        onChange={(value) => setInput(key, { highPercent: value })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">
+              {t('uncertainty.note')}
+            </p>
+            <NumberField
+              label={t('uncertainty.iterations', { min: formatNumber(MIN_ITERATIONS), max: formatNumber(MAX_ITERATIONS) })}
+              value={settings.iterations}
+              rule={{ min: MIN_ITERATIONS, max: MAX_ITERATIONS, step: 500, integer: true }}
+              onChange={(value) => onSettingsChange({ ...settings, iterations: value })}
+            />
+          </div>
+
+          <div>
+            {result ? (
+              <div className={isRunning ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="p-4 rounded-lg bg-gradient-to-br from-teal-900/30 to-emerald-900/20 border border-teal-800/30">
+                    <p className="text-sm text-gray-400">{t('uncertainty.probability')}</p>
+                    <p className="text-2xl font-bold text-emerald-400">{formatPercent(result.probabilityAiWins)}</p>
+                  </div>
+                  <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700 text-sm">
+                    <p className="text-gray-400 mb-1">{t('uncertainty.profitGap')}</p>
+                    <p className="text-gray-300">P10: {formatCurrency(result.profitGap.p10)}</p>
+                    <p className="text-gray-200 font-semibold">P50: {formatCurrency(result.profitGap.p50)}</p>
+                    <p className="text-gray-300">P90: {formatCurrency(result.profitGap.p90)}</p>
+                  </div>
+                </div>
+                <div className="h-[280px]">
+                  <Bar options={chartOptions} data={chartData} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{t('uncertainty.iterationsRun', { count: formatNumber(result.iterations) })}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">{t('uncertainty.running')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default UncertaintyPanel;
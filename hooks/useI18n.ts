@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { createI18n, I18n, LocaleSettings } from '../lib/i18n';
+
+export interface I18nContextValue extends I18n {
+  setLocaleSettings: (settings: LocaleSettings) => void;
+  settingsSaveFailed: boolean;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  ...createI18n(),
+  setLocaleSettings: () => undefined,
+  settingsSaveFailed: false
+});
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
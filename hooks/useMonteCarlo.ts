@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import { Scenario } from '../lib/calculator';
+import { SimulationResult, UncertaintySettings } from '../lib/monteCarlo';
+
+const SIMULATION_DEBOUNCE_MS = 300;
+const SIMULATION_SEED = 20250217;
+
+interface WorkerResponse {
+  requestId: number;
+  result: SimulationResult;
+}
+
+// Runs the Monte Carlo simulation off the main thread; results of superseded requests are dropped
+export function useMonteCarlo(enabled: boolean, scenario: Scenario, settings: UncertaintySettings) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const worker = new Worker(new URL('../lib/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.requestId !== requestIdRef.current) return;
+      setResult(event.data.result);
+      setIsRunning(false);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [enabled]);
+
+  const request = JSON.stringify({ scenario, settings });
+
+  useEffect(() => {
+    if (!enabled) return;
+    setIsRunning(true);
+    const timeout = window.setTimeout(() => {
+      const requestId = ++requestIdRef.current;
+      workerRef.current?.postMessage({ requestId, seed: SIMULATION_SEED, ...JSON.parse(request) });
+    }, SIMULATION_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [enabled, request]);
+
+  return { result: enabled ? result : null, isRunning: enabled && isRunning };
+}
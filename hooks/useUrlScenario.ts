@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { Scenario } from '../lib/calculator';
+import { decodeScenario, encodeScenario } from '../lib/urlState';
+
+// Edits settle for this long before becoming a history entry, so typing doesn't flood back/forward
+const HISTORY_DEBOUNCE_MS = 800;
+
+export function readScenarioFromUrl(): Scenario {
+  return decodeScenario(window.location.search);
+}
+
+export function useUrlScenario(scenario: Scenario, onRestore: (scenario: Scenario) => void) {
+  const encoded = encodeScenario(scenario);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      // Compare canonical forms so an untouched default page doesn't push an entry
+      if (encodeScenario(readScenarioFromUrl()) === encoded) return;
+      window.history.pushState(null, '', `${window.location.pathname}?${encoded}${window.location.hash}`);
+    }, HISTORY_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [encoded]);
+
+  useEffect(() => {
+    const handlePopState = () => onRestore(readScenarioFromUrl());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [onRestore]);
+}
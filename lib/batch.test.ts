@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { batchToSheet, calculateBatchResult, parseBatchRows, summarizeBatch } from './batch';
+import { createI18n } from './i18n';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const { t } = createI18n('en');
+
+describe('parseBatchRows', () => {
+  it('overrides the base scenario with the filled cells', () => {
+    const { scenarios, errors } = parseBatchRows([
+      ['nome', 'contactsPerDay', 'humanLostLeadsRate', 'ticketValue'],
+      ['Clínica Sorriso', '80', '0,25', ''],
+      ['', '1.200', '', '900']
+    ], DEFAULT_SCENARIO, t);
+    assert.deepEqual(errors, []);
+    assert.equal(scenarios[0].name, 'Clínica Sorriso');
+    assert.equal(scenarios[0].scenario.metrics.contactsPerDay, 80);
+    assert.equal(scenarios[0].scenario.assumptions.humanLostLeadsRate, 0.25);
+    assert.equal(scenarios[0].scenario.metrics.ticketValue, DEFAULT_SCENARIO.metrics.ticketValue);
+    assert.equal(scenarios[1].name, 'Row 3');
+    assert.equal(scenarios[1].scenario.metrics.contactsPerDay, 1200);
+    assert.equal(scenarios[1].scenario.metrics.ticketValue, 900);
+  });
+
+  it('rejects values outside the model rules', () => {
+    const { scenarios, errors } = parseBatchRows([
+      ['contactsPerDay', 'humanLostLeadsRate', 'aiConversionRate', 'daysPerMonth'],
+      ['-1', '', '', ''],
+      ['', '1,5', '', ''],
+      ['', '', '120', ''],
+      ['', '', '', '0'],
+      ['abc', '', '', '']
+    ], DEFAULT_SCENARIO, t);
+    assert.equal(scenarios.length, 0);
+    assert.deepEqual(errors.map((error) => [error.row, error.messageKey, error.params?.column]), [
+      [2, 'batch.error.invalidNumber', 'contactsPerDay'],
+      [3, 'batch.error.invalidNumber', 'humanLostLeadsRate'],
+      [4, 'batch.error.invalidNumber', 'aiConversionRate'],
+      [5, 'batch.error.invalidNumber', 'daysPerMonth'],
+      [6, 'batch.error.invalidNumber', 'contactsPerDay']
+    ]);
+  });
+});
+
+describe('batchToSheet', () => {
+  it('adds a TOTAL row with the sums of every scenario', () => {
+    const results = [
+      calculateBatchResult({ name: 'A', scenario: DEFAULT_SCENARIO }),
+      calculateBatchResult({ name: 'B', scenario: DEFAULT_SCENARIO })
+    ];
+    const sheet = batchToSheet(results, summarizeBatch(results));
+    const revenueColumn = sheet[0].indexOf('ai.revenue');
+    assert.equal(sheet.length, 4);
+    assert.equal(sheet[3][0], 'TOTAL');
+    assert.equal(sheet[3][revenueColumn], '2736000');
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  AssumptionsType,
+  calculateMetrics,
+  DEFAULT_ASSUMPTIONS,
+  DEFAULT_METRICS,
+  MetricsType,
+  Scenario,
+  ScenarioResult,
+} from './calculator';
+import { parseDecimal } from './format';
+import { MessageKey, MessageParams, Translate } from './i18n';
+import { isRecord, normalizeScenario, parseScenarioFile, ScenarioFileError } from './scenarioStore';
+import { dataRows, SheetRows, toCsvNumber } from './spreadsheet';
+import { checkNumber, METRIC_RULES, storedAssumptionRule } from './validation';
+
+export type BatchField = 'respondedContacts' | 'conversions' | 'revenue' | 'monthlyCost' | 'lostRevenue' | 'annualCost' | 'annualProfit';
+
+export type BatchFigures = Pick<ScenarioResult, BatchField>;
+
+export interface NamedScenario {
+  name: string;
+  scenario: Scenario;
+}
+
+export interface BatchResult {
+  name: string;
+  human: BatchFigures;
+  ai: BatchFigures;
+  annualProfitGain: number;
+}
+
+export interface BatchSummary {
+  count: number;
+  human: BatchFigures;
+  ai: BatchFigures;
+  annualProfitGain: number;
+}
+
+export interface BatchRowError {
+  row: number;
+  messageKey: MessageKey;
+  params?: MessageParams;
+}
+
+export interface ParsedBatch {
+  scenarios: NamedScenario[];
+  errors: BatchRowError[];
+}
+
+export const BATCH_FIELDS: BatchField[] = [
+  'respondedContacts',
+  'conversions',
+  'revenue',
+  'monthlyCost',
+  'lostRevenue',
+  'annualCost',
+  'annualProfit'
+];
+
+const NAME_HEADERS = ['name', 'nome', 'clinic', 'clinica', 'clínica', 'cliente', 'client'];
+
+// Accepts both a scenario file exported by the app and a bare { metrics, assumptions, conversionCurve } object
+export function parseScenarioInput(text: string, fallbackName: string): NamedScenario[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ScenarioFileError('scenarios.error.invalidJson');
+  }
+
+  if (isRecord(parsed) && 'schemaVersion' in parsed) {
+    return parseScenarioFile(text, fallbackName).map(({ name, scenario }) => ({ name, scenario }));
+  }
+  if (!isRecord(parsed) || !('metrics' in parsed || 'assumptions' in parsed)) {
+    throw new ScenarioFileError('batch.error.notAScenario');
+  }
+  return [{ name: fallbackName, scenario: normalizeScenario(parsed) }];
+}
+
+// Columns are named after the model fields (contactsPerDay, humanLostLeadsRate...), in the same units as the JSON files.
+// Blank cells keep the value of the base scenario.
+export function parseBatchRows(rows: SheetRows, base: Scenario, t: Translate): ParsedBatch {
+  const headers = rows[0].map((header) => header.trim());
+  const metricKeys = Object.keys(DEFAULT_METRICS) as (keyof MetricsType)[];
+  const assumptionKeys = Object.keys(DEFAULT_ASSUMPTIONS) as (keyof AssumptionsType)[];
+  const findColumn = (key: string) => headers.findIndex((header) => header.toLowerCase() === key.toLowerCase());
+  const nameColumn = headers.findIndex((header) => NAME_HEADERS.includes(header.toLowerCase()));
+  // Rates are fractions here, as in the JSON files, so they are checked against the stored-unit rules
+  const fields = [
+    ...metricKeys.map((key) => ({ key, rule: METRIC_RULES[key] })),
+    ...assumptionKeys.map((key) => ({ key, rule: storedAssumptionRule(key) }))
+  ];
+
+  const scenarios: NamedScenario[] = [];
+  const errors: BatchRowError[] = [];
+
+  dataRows(rows).forEach(({ row, rowNumber }) => {
+    const cells = fields
+      .map(({ key, rule }) => {
+        const column = findColumn(key);
+        const text = column >= 0 ? (row[column] ?? '').trim() : '';
+        return { key, text, value: parseDecimal(text), rule };
+      })
+      .filter((cell) => cell.text !== '');
+
+    const invalid = cells.find((cell) => checkNumber(cell.value, cell.rule) !== null);
+    if (invalid) {
+      errors.push({ row: rowNumber, messageKey: 'batch.error.invalidNumber', params: { column: invalid.key, value: invalid.text } });
+      return;
+    }
+
+    const valuesOf = (keys: string[]) =>
+      Object.fromEntries(cells.filter((cell) => keys.includes(cell.key)).map((cell) => [cell.key, cell.value]));
+    const name = nameColumn >= 0 ? (row[nameColumn] ?? '').trim() : '';
+    scenarios.push({
+      name: name || t('batch.rowName', { row: rowNumber }),
+      scenario: {
+        ...base,
+        metrics: { ...base.metrics, ...valuesOf(metricKeys) },
+        assumptions: { ...base.assumptions, ...valuesOf(assumptionKeys) }
+      }
+    });
+  });
+
+  return { scenarios, errors };
+}
+
+const pickFigures = (result: ScenarioResult): BatchFigures =>
+  Object.fromEntries(BATCH_FIELDS.map((field) => [field, result[field]])) as BatchFigures;
+
+export function calculateBatchResult({ name, scenario }: NamedScenario): BatchResult {
+  const human = pickFigures(calculateMetrics(scenario, false));
+  const ai = pickFigures(calculateMetrics(scenario, true));
+  return { name, human, ai, annualProfitGain: ai.annualProfit - human.annualProfit };
+}
+
+const sumFigures = (items: BatchFigures[]): BatchFigures =>
+  Object.fromEntries(BATCH_FIELDS.map((field) => [field, items.reduce((sum, item) => sum + item[field], 0)])) as BatchFigures;
+
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  return {
+    count: results.length,
+    human: sumFigures(results.map((result) => result.human)),
+    ai: sumFigures(results.map((result) => result.ai)),
+    annualProfitGain: results.reduce((sum, result) => sum + result.annualProfitGain, 0)
+  };
+}
+
+// One row per scenario plus a final TOTAL row
+export function batchToSheet(results: BatchResult[], summary: BatchSummary): SheetRows {
+  const header = [
+    'name',
+    ...BATCH_FIELDS.map((field) => `human.${field}`),
+    ...BATCH_FIELDS.map((field) => `ai.${field}`),
+    'annualProfitGain'
+  ];
+  const line = (name: string, { human, ai, annualProfitGain }: Omit<BatchResult, 'name'>) => [
+    name,
+    ...BATCH_FIELDS.map((field) => toCsvNumber(human[field])),
+    ...BATCH_FIELDS.map((field) => toCsvNumber(ai[field])),
+    toCsvNumber(annualProfitGain)
+  ];
+
+  return [header, ...results.map((result) => line(result.name, result)), line('TOTAL', summary)];
+}
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateHourlyCosts,
+  calculateHybridMetrics,
+  calculateMetrics,
+  Scenario,
+  sweepHybridHandoff,
+} from './calculator';
+import { getConversionRate } from './conversionCurve';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const withMetrics = (changes: Partial<Scenario['metrics']>): Scenario => ({
+  ...DEFAULT_SCENARIO,
+  metrics: { ...DEFAULT_SCENARIO.metrics, ...changes }
+});
+
+const withAssumptions = (changes: Partial<Scenario['assumptions']>): Scenario => ({
+  ...DEFAULT_SCENARIO,
+  assumptions: { ...DEFAULT_SCENARIO.assumptions, ...changes }
+});
+
+describe('calculateMetrics', () => {
+  it('computes the human baseline', () => {
+    const result = calculateMetrics(DEFAULT_SCENARIO, false);
+    assert.equal(result.respondedContacts, 2100);
+    assert.equal(result.conversions, 21);
+    assert.equal(result.revenue, 25200);
+    assert.equal(result.monthlyCost, 161500);
+    assert.equal(result.annualProfit, (25200 - 161500) * 12);
+  });
+
+  it('computes the AI baseline', () => {
+    const result = calculateMetrics(DEFAULT_SCENARIO, true);
+    assert.equal(result.respondedContacts, 2850);
+    assert.equal(result.conversions, 1140);
+    assert.equal(result.revenue, 1368000);
+    assert.equal(result.monthlyCost, 2212.5);
+  });
+
+  it('spreads no cost when there are no contacts', () => {
+    for (const isAI of [false, true]) {
+      const result = calculateMetrics(withMetrics({ contactsPerDay: 0 }), isAI);
+      assert.equal(result.respondedContacts, 0);
+      assert.equal(result.revenue, 0);
+      assert.equal(result.costPerAttendance, 0);
+    }
+  });
+
+  it('spreads no cost when every lead is lost', () => {
+    const human = calculateMetrics(withAssumptions({ humanLostLeadsRate: 1 }), false);
+    const ai = calculateMetrics(withAssumptions({ aiLostLeadsRate: 1 }), true);
+    assert.equal(human.costPerAttendance, 0);
+    assert.equal(ai.costPerAttendance, 0);
+  });
+
+  it('charges no attendance hours for an instant response', () => {
+    const human = calculateMetrics(withMetrics({ responseTime: 0 }), false);
+    assert.equal(human.monthlyCost, DEFAULT_SCENARIO.metrics.humanMonthlyCost);
+
+    const ai = calculateMetrics(withAssumptions({ aiResponseTime: 0 }), true);
+    assert.equal(ai.monthlyCost, DEFAULT_SCENARIO.metrics.aiCostPerMonth);
+  });
+});
+
+describe('calculateHourlyCosts', () => {
+  it('spreads the human cost over business hours and the AI cost over the whole month', () => {
+    const { humanCostPerHour, aiCostPerHour } = calculateHourlyCosts(DEFAULT_SCENARIO);
+    assert.equal(humanCostPerHour, 4000 / (22 * 8));
+    assert.equal(aiCostPerHour, 1500 / (30 * 24));
+  });
+});
+
+describe('calculateHybridMetrics', () => {
+  it('matches the AI flow when nothing is handed off', () => {
+    const hybrid = calculateHybridMetrics(withAssumptions({ hybridHandoffRate: 0 }));
+    assert.deepEqual(hybrid, calculateMetrics(DEFAULT_SCENARIO, true));
+  });
+
+  it('adds the human fixed cost as soon as anything is handed off', () => {
+    const scenario = withAssumptions({ hybridHandoffRate: 0.01 });
+    const hybrid = calculateHybridMetrics(scenario);
+    const ai = calculateMetrics(scenario, true);
+    assert.ok(hybrid.monthlyCost - ai.monthlyCost >= DEFAULT_SCENARIO.metrics.humanMonthlyCost);
+  });
+
+  it('sends every answered lead through the human curve when everything is handed off', () => {
+    const scenario = withAssumptions({ hybridHandoffRate: 1 });
+    const { assumptions, conversionCurve } = scenario;
+    const hybrid = calculateHybridMetrics(scenario);
+
+    // 3000 contacts, 5% lost before the AI answers, then 30% of the rest lost waiting for a person
+    assert.equal(hybrid.respondedContacts, 1995);
+    assert.ok(Math.abs(hybrid.conversionRate - getConversionRate(conversionCurve, assumptions.hybridHumanResponseTime)) < 1e-9);
+    assert.ok(hybrid.monthlyCost >= DEFAULT_SCENARIO.metrics.humanMonthlyCost + DEFAULT_SCENARIO.metrics.aiCostPerMonth);
+  });
+
+  it('clamps the handoff rate to 0–100%', () => {
+    assert.deepEqual(
+      calculateHybridMetrics(withAssumptions({ hybridHandoffRate: 1.5 })),
+      calculateHybridMetrics(withAssumptions({ hybridHandoffRate: 1 }))
+    );
+  });
+});
+
+describe('sweepHybridHandoff', () => {
+  it('runs from no handoff to full handoff', () => {
+    const points = sweepHybridHandoff(DEFAULT_SCENARIO, 4);
+    assert.deepEqual(points.map((point) => point.handoffRate), [0, 0.25, 0.5, 0.75, 1]);
+
+    const full = calculateHybridMetrics(withAssumptions({ hybridHandoffRate: 1 }));
+    assert.equal(points[4].revenue, full.revenue);
+    assert.equal(points[4].profit, full.revenue - full.monthlyCost);
+  });
+});
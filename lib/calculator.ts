@@ -0,0 +1,179 @@
+import { ConversionCurve, getConversionRate } from './conversionCurve';
+
+export interface MetricsType {
+  contactsPerDay: number;
+  responseTime: number;
+  ticketValue: number;
+  humanCostPerHour: number;
+  aiCostPerHour: number;
+  humanMonthlyCost: number;
+  aiCostPerMonth: number;
+}
+
+export interface AssumptionsType {
+  daysPerMonth: number;
+  workingDaysPerMonth: number;
+  hoursPerDay: number;
+  humanLostLeadsRate: number;
+  aiLostLeadsRate: number;
+  aiResponseTime: number;
+  aiConversionRate: number;
+  hybridHandoffRate: number;
+  hybridHumanResponseTime: number;
+}
+
+export interface Scenario {
+  metrics: MetricsType;
+  assumptions: AssumptionsType;
+  conversionCurve: ConversionCurve;
+}
+
+export interface ScenarioResult {
+  respondedContacts: number;
+  conversions: number;
+  revenue: number;
+  monthlyCost: number;
+  costPerAttendance: number;
+  lostRevenue: number;
+  conversionRate: number;
+  annualRevenue: number;
+  annualCost: number;
+  annualProfit: number;
+}
+
+export interface HourlyCosts {
+  humanCostPerHour: number;
+  aiCostPerHour: number;
+}
+
+export const DEFAULT_METRICS: MetricsType = {
+  contactsPerDay: 100,
+  responseTime: 180,
+  ticketValue: 1200,
+  humanCostPerHour: 25,
+  aiCostPerHour: 15,
+  humanMonthlyCost: 4000,
+  aiCostPerMonth: 1500
+};
+
+export const DEFAULT_ASSUMPTIONS: AssumptionsType = {
+  daysPerMonth: 30,
+  workingDaysPerMonth: 22,
+  hoursPerDay: 8,
+  humanLostLeadsRate: 0.30,
+  aiLostLeadsRate: 0.05,
+  aiResponseTime: 1,
+  aiConversionRate: 40,
+  hybridHandoffRate: 0.20,
+  hybridHumanResponseTime: 10
+};
+
+export function calculateMetrics({ metrics, assumptions, conversionCurve }: Scenario, isAI: boolean): ScenarioResult {
+  const monthlyContacts = metrics.contactsPerDay * assumptions.daysPerMonth;
+  const responseTime = isAI ? assumptions.aiResponseTime : metrics.responseTime;
+  const conversionRate = isAI ? assumptions.aiConversionRate : getConversionRate(conversionCurve, responseTime);
+
+  const lostLeadsRate = isAI ? assumptions.aiLostLeadsRate : assumptions.humanLostLeadsRate;
+  const respondedContacts = monthlyContacts * (1 - lostLeadsRate);
+  const attendanceHours = (respondedContacts * responseTime) / 60;
+
+  const monthlyCost = isAI
+    ? (attendanceHours * metrics.aiCostPerHour) + metrics.aiCostPerMonth
+    : metrics.humanMonthlyCost + (attendanceHours * metrics.humanCostPerHour);
+
+  const conversions = (respondedContacts * conversionRate) / 100;
+  const lostRevenue = monthlyContacts * lostLeadsRate * (conversionRate / 100) * metrics.ticketValue;
+
+  return buildResult(respondedContacts, conversions, monthlyCost, lostRevenue, conversionRate, metrics.ticketValue);
+}
+
+// AI answers every contact first and hands a share of the conversations over to a human attendant
+export function calculateHybridMetrics({ metrics, assumptions, conversionCurve }: Scenario): ScenarioResult {
+  const monthlyContacts = metrics.contactsPerDay * assumptions.daysPerMonth;
+  const handoffRate = Math.min(1, Math.max(0, assumptions.hybridHandoffRate));
+  const humanResponseTime = assumptions.hybridHumanResponseTime;
+  const humanConversionRate = getConversionRate(conversionCurve, humanResponseTime);
+
+  const aiLostContacts = monthlyContacts * assumptions.aiLostLeadsRate;
+  const aiHandledContacts = monthlyContacts - aiLostContacts;
+  const escalatedContacts = aiHandledContacts * handoffRate;
+  // Escalated contacts wait for a person again, so they leak like the all-human flow
+  const escalatedLostContacts = escalatedContacts * assumptions.humanLostLeadsRate;
+  const humanAttendedContacts = escalatedContacts - escalatedLostContacts;
+  const aiOnlyContacts = aiHandledContacts - escalatedContacts;
+  const respondedContacts = aiOnlyContacts + humanAttendedContacts;
+
+  const aiHours = (aiHandledContacts * assumptions.aiResponseTime) / 60;
+  const humanHours = (humanAttendedContacts * humanResponseTime) / 60;
+  const monthlyCost = metrics.aiCostPerMonth + (aiHours * metrics.aiCostPerHour)
+    + (handoffRate > 0 ? metrics.humanMonthlyCost + (humanHours * metrics.humanCostPerHour) : 0);
+
+  const conversions = (aiOnlyContacts * assumptions.aiConversionRate + humanAttendedContacts * humanConversionRate) / 100;
+  const lostRevenue = ((aiLostContacts * assumptions.aiConversionRate + escalatedLostContacts * humanConversionRate) / 100)
+    * metrics.ticketValue;
+  const conversionRate = respondedContacts > 0 ? (conversions / respondedContacts) * 100 : 0;
+
+  return buildResult(respondedContacts, conversions, monthlyCost, lostRevenue, conversionRate, metrics.ticketValue);
+}
+
+function buildResult(
+  respondedContacts: number,
+  conversions: number,
+  monthlyCost: number,
+  lostRevenue: number,
+  conversionRate: number,
+  ticketValue: number
+): ScenarioResult {
+  const revenue = conversions * ticketValue;
+  // No one was attended, so there is nothing to spread the cost over
+  const costPerAttendance = respondedContacts > 0 ? monthlyCost / respondedContacts : 0;
+  const annualRevenue = revenue * 12;
+  const annualCost = monthlyCost * 12;
+
+  return {
+    respondedContacts,
+    conversions: Math.round(conversions),
+    revenue,
+    monthlyCost,
+    costPerAttendance,
+    lostRevenue,
+    conversionRate,
+    annualRevenue,
+    annualCost,
+    annualProfit: annualRevenue - annualCost
+  };
+}
+
+// Hourly cost of the monthly investment: humans work business hours, the AI is available 24/7
+export function calculateHourlyCosts({ metrics, assumptions }: Scenario): HourlyCosts {
+  const humanHours = assumptions.workingDaysPerMonth * assumptions.hoursPerDay;
+  const aiHours = assumptions.daysPerMonth * 24;
+
+  return {
+    humanCostPerHour: humanHours > 0 ? metrics.humanMonthlyCost / humanHours : 0,
+    aiCostPerHour: aiHours > 0 ? metrics.aiCostPerMonth / aiHours : 0
+  };
+}
+
+export interface HandoffSweepPoint {
+  handoffRate: number;
+  revenue: number;
+  monthlyCost: number;
+  profit: number;
+}
+
+export function sweepHybridHandoff(scenario: Scenario, steps = 20): HandoffSweepPoint[] {
+  return Array.from({ length: steps + 1 }, (_, index) => {
+    const handoffRate = index / steps;
+    const result = calculateHybridMetrics({
+      ...scenario,
+      assumptions: { ...scenario.assumptions, hybridHandoffRate: handoffRate }
+    });
+    return {
+      handoffRate,
+      revenue: result.revenue,
+      monthlyCost: result.monthlyCost,
+      profit: result.revenue - result.monthlyCost
+    };
+  });
+}
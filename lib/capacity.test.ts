@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyCapacity,
+  calculateCapacity,
+  DEFAULT_CAPACITY_SETTINGS,
+  erlangC,
+  expectedWaitMinutes,
+  MAX_WAIT_MINUTES,
+} from './capacity';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+describe('erlangC', () => {
+  it('matches M/M/1, where the chance of waiting is the utilization', () => {
+    close(erlangC(1, 0.5), 0.5);
+    close(erlangC(1, 0.9), 0.9);
+  });
+
+  it('matches the closed form for small teams', () => {
+    close(erlangC(2, 1), 1 / 3);
+    close(erlangC(10, 8), 0.4092, 1e-4);
+  });
+
+  it('never waits without traffic and always waits when overloaded', () => {
+    assert.equal(erlangC(3, 0), 0);
+    assert.equal(erlangC(3, 3), 1);
+    assert.equal(erlangC(0, 1), 1);
+  });
+
+  it('stays finite for large teams', () => {
+    const probability = erlangC(400, 380);
+    assert.ok(probability > 0 && probability < 1);
+  });
+});
+
+describe('expectedWaitMinutes', () => {
+  it('applies C·h/(N−A)', () => {
+    // 5 contacts/h × 6 min = 0.5 Erlang on one attendant
+    close(expectedWaitMinutes(1, 5, 6), 6);
+    close(expectedWaitMinutes(2, 10, 6), ((1 / 3) * 6) / 1);
+  });
+
+  it('caps an unstable queue at a full day', () => {
+    assert.equal(expectedWaitMinutes(1, 10, 6), MAX_WAIT_MINUTES);
+    assert.equal(expectedWaitMinutes(0, 1, 6), MAX_WAIT_MINUTES);
+    assert.equal(expectedWaitMinutes(1, 0, 6), 0);
+  });
+});
+
+describe('calculateCapacity', () => {
+  it('finds the smallest team that meets the target response time', () => {
+    const capacity = calculateCapacity(DEFAULT_SCENARIO, DEFAULT_CAPACITY_SETTINGS);
+    assert.ok(capacity.requiredAttendants !== null);
+    const required = capacity.requiredAttendants;
+    const withRequired = calculateCapacity(DEFAULT_SCENARIO, { ...DEFAULT_CAPACITY_SETTINGS, attendants: required });
+    assert.ok(withRequired.averageWaitMinutes <= DEFAULT_CAPACITY_SETTINGS.targetResponseTime);
+    if (required > 1) {
+      const withFewer = calculateCapacity(DEFAULT_SCENARIO, { ...DEFAULT_CAPACITY_SETTINGS, attendants: required - 1 });
+      assert.ok(withFewer.averageWaitMinutes > DEFAULT_CAPACITY_SETTINGS.targetResponseTime);
+    }
+  });
+
+  it('counts contacts outside the shift and on days off as after hours', () => {
+    const settings = { ...DEFAULT_CAPACITY_SETTINGS, hourlyDistribution: Array(24).fill(1), shiftStartHour: 0, shiftEndHour: 12 };
+    const capacity = calculateCapacity(DEFAULT_SCENARIO, settings);
+    close(capacity.afterHoursShare, 1 - (22 / 30) * 0.5);
+  });
+
+  it('scales the monthly cost with the headcount in applyCapacity', () => {
+    const settings = { ...DEFAULT_CAPACITY_SETTINGS, attendants: 3 };
+    const scenario = applyCapacity(DEFAULT_SCENARIO, settings, calculateCapacity(DEFAULT_SCENARIO, settings));
+    assert.equal(scenario.metrics.humanMonthlyCost, DEFAULT_SCENARIO.metrics.humanMonthlyCost * 3);
+  });
+});
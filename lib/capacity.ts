@@ -0,0 +1,150 @@
+import { Scenario } from './calculator';
+
+export interface CapacitySettings {
+  handleTimeMinutes: number;
+  attendants: number;
+  shiftStartHour: number;
+  shiftEndHour: number;
+  targetResponseTime: number;
+  hourlyDistribution: number[];
+}
+
+export interface HourlyCapacity {
+  hour: number;
+  contacts: number;
+  waitMinutes: number;
+  occupancy: number;
+}
+
+export interface CapacityResult {
+  averageWaitMinutes: number;
+  isOverloaded: boolean;
+  occupancy: number;
+  requiredAttendants: number | null;
+  afterHoursShare: number;
+  afterHoursContactsPerMonth: number;
+  hourly: HourlyCapacity[];
+}
+
+// Waits are capped at a full day: past that point the queue is not being worked off at all
+export const MAX_WAIT_MINUTES = 24 * 60;
+const MAX_SEARCHED_ATTENDANTS = 500;
+
+// Relative weight of each hour of the day (0h–23h), typical of a clinic's WhatsApp inbox
+export const DEFAULT_HOURLY_DISTRIBUTION = [
+  1, 0.5, 0.5, 0.5, 0.5, 1, 2, 4, 7, 9, 9, 8, 6, 7, 8, 8, 7, 6, 5, 4, 3, 2, 2, 1
+];
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+  handleTimeMinutes: 6,
+  attendants: 1,
+  shiftStartHour: 8,
+  shiftEndHour: 18,
+  targetResponseTime: 5,
+  hourlyDistribution: DEFAULT_HOURLY_DISTRIBUTION
+};
+
+// Erlang C: probability that a contact has to wait, for `traffic` Erlangs offered to `agents` servers.
+// Uses the Erlang B recursion to stay numerically stable for large agent counts.
+export function erlangC(agents: number, traffic: number): number {
+  if (traffic <= 0) return 0;
+  if (agents <= traffic) return 1;
+
+  let erlangB = 1;
+  for (let k = 1; k <= agents; k++) {
+    erlangB = (traffic * erlangB) / (k + traffic * erlangB);
+  }
+  return (agents * erlangB) / (agents - traffic * (1 - erlangB));
+}
+
+export function expectedWaitMinutes(agents: number, contactsPerHour: number, handleTimeMinutes: number): number {
+  const traffic = (contactsPerHour * handleTimeMinutes) / 60;
+  if (traffic <= 0) return 0;
+  if (agents <= traffic) return MAX_WAIT_MINUTES;
+  return Math.min(MAX_WAIT_MINUTES, (erlangC(agents, traffic) * handleTimeMinutes) / (agents - traffic));
+}
+
+const isShiftHour = (settings: CapacitySettings, hour: number) =>
+  hour >= settings.shiftStartHour && hour < settings.shiftEndHour;
+
+function hourlyContacts(scenario: Scenario, settings: CapacitySettings): number[] {
+  const weights = settings.hourlyDistribution.map((weight) => Math.max(0, weight));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight) => (total > 0 ? (scenario.metrics.contactsPerDay * weight) / total : 0));
+}
+
+function averageShiftWait(contacts: number[], settings: CapacitySettings, agents: number): number {
+  let weightedWait = 0;
+  let shiftContacts = 0;
+  contacts.forEach((count, hour) => {
+    if (!isShiftHour(settings, hour)) return;
+    weightedWait += count * expectedWaitMinutes(agents, count, settings.handleTimeMinutes);
+    shiftContacts += count;
+  });
+  return shiftContacts > 0 ? weightedWait / shiftContacts : 0;
+}
+
+export function calculateCapacity(scenario: Scenario, settings: CapacitySettings): CapacityResult {
+  const { assumptions } = scenario;
+  const agents = Math.max(0, Math.floor(settings.attendants));
+  const contacts = hourlyContacts(scenario, settings);
+
+  const hourly = contacts.map((count, hour) => {
+    const onShift = isShiftHour(settings, hour);
+    const traffic = (count * settings.handleTimeMinutes) / 60;
+    return {
+      hour,
+      contacts: count,
+      waitMinutes: onShift ? expectedWaitMinutes(agents, count, settings.handleTimeMinutes) : 0,
+      occupancy: onShift && agents > 0 ? Math.min(100, (traffic / agents) * 100) : 0
+    };
+  });
+
+  const shiftHours = hourly.filter((item) => isShiftHour(settings, item.hour));
+  const shiftContacts = shiftHours.reduce((sum, item) => sum + item.contacts, 0);
+  const totalTraffic = shiftHours.reduce((sum, item) => sum + (item.contacts * settings.handleTimeMinutes) / 60, 0);
+  const averageWaitMinutes = averageShiftWait(contacts, settings, agents);
+
+  let requiredAttendants: number | null = null;
+  for (let candidate = 1; candidate <= MAX_SEARCHED_ATTENDANTS; candidate++) {
+    if (averageShiftWait(contacts, settings, candidate) <= settings.targetResponseTime) {
+      requiredAttendants = candidate;
+      break;
+    }
+  }
+
+  // Contacts outside the shift, or on days the team doesn't work, never reach an attendant
+  const workingDayShare = assumptions.daysPerMonth > 0
+    ? Math.min(1, assumptions.workingDaysPerMonth / assumptions.daysPerMonth)
+    : 0;
+  const shiftShare = scenario.metrics.contactsPerDay > 0 ? shiftContacts / scenario.metrics.contactsPerDay : 0;
+  const afterHoursShare = 1 - workingDayShare * shiftShare;
+
+  return {
+    averageWaitMinutes,
+    isOverloaded: shiftHours.some((item) => item.waitMinutes >= MAX_WAIT_MINUTES),
+    occupancy: agents > 0 && shiftHours.length > 0 ? Math.min(100, (totalTraffic / (agents * shiftHours.length)) * 100) : 0,
+    requiredAttendants,
+    afterHoursShare,
+    afterHoursContactsPerMonth: scenario.metrics.contactsPerDay * assumptions.daysPerMonth * afterHoursShare,
+    hourly
+  };
+}
+
+// Derives the human inputs from the staffing model: wait time drives conversion, salary scales with headcount
+// and after-hours contacts are counted as lost leads
+export function applyCapacity(scenario: Scenario, settings: CapacitySettings, capacity: CapacityResult): Scenario {
+  const { metrics, assumptions } = scenario;
+  return {
+    ...scenario,
+    metrics: {
+      ...metrics,
+      responseTime: capacity.averageWaitMinutes,
+      humanMonthlyCost: metrics.humanMonthlyCost * Math.max(0, Math.floor(settings.attendants))
+    },
+    assumptions: {
+      ...assumptions,
+      humanLostLeadsRate: 1 - (1 - assumptions.humanLostLeadsRate) * (1 - capacity.afterHoursShare)
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetrics } from './calculator';
+import { buildFunnel, buildRevenueCostChartData, buildRevenueWaterfall, scenarioModes, whatIfToSheet } from './chartData';
+import { createI18n } from './i18n';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const { t } = createI18n('en');
+
+describe('buildRevenueWaterfall', () => {
+  it('splits the revenue gap into lost leads and lower conversion', () => {
+    const human = calculateMetrics(DEFAULT_SCENARIO, false);
+    const ai = calculateMetrics(DEFAULT_SCENARIO, true);
+    const steps = buildRevenueWaterfall(DEFAULT_SCENARIO, human, ai);
+
+    assert.deepEqual(
+      steps.map((step) => [step.labelKey, Math.round(step.value)]),
+      [
+        ['charts.waterfall.humanRevenue', 25200],
+        ['charts.waterfall.lostLeads', 9000],
+        ['charts.waterfall.lowerConversion', 1333800],
+        ['charts.waterfall.aiRevenue', 1368000]
+      ]
+    );
+    // Each step starts where the previous one ended, and the last change lands on the AI revenue
+    assert.equal(steps[1].start, steps[0].end);
+    assert.equal(steps[2].start, steps[1].end);
+    assert.ok(Math.abs(steps[2].end - ai.revenue) < 1e-6);
+  });
+});
+
+describe('buildFunnel', () => {
+  it('starts every mode from the same monthly contacts', () => {
+    const rows = buildFunnel(DEFAULT_SCENARIO, scenarioModes(DEFAULT_SCENARIO));
+    assert.deepEqual(rows.map((row) => row.mode), ['human', 'ai', 'hybrid']);
+    assert.ok(rows.every((row) => row.contacts === 3000));
+    assert.equal(rows[0].respondedContacts, 2100);
+  });
+});
+
+describe('buildRevenueCostChartData', () => {
+  it('keeps only money on the axis, one bar group per mode', () => {
+    const data = buildRevenueCostChartData(scenarioModes(DEFAULT_SCENARIO).slice(0, 2), t);
+    assert.deepEqual(data.labels, [t('mode.human'), t('mode.ai')]);
+    assert.deepEqual(data.datasets.map((dataset) => dataset.data), [
+      [25200, 1368000],
+      [161500, 2212.5],
+      [25200 - 161500, 1368000 - 2212.5]
+    ]);
+  });
+});
+
+describe('whatIfToSheet', () => {
+  it('puts both scenarios side by side with the profit change', () => {
+    const cheaper = { ...DEFAULT_SCENARIO, metrics: { ...DEFAULT_SCENARIO.metrics, humanMonthlyCost: 2000 } };
+    const sheet = whatIfToSheet(scenarioModes(DEFAULT_SCENARIO), scenarioModes(cheaper), t);
+
+    assert.equal(sheet.length, 4);
+    assert.equal(sheet[1][0], t('mode.human'));
+    assert.equal(sheet[1][7], '2000');
+    assert.equal(sheet[2][7], '0');
+  });
+});
@@ -0,0 +1,155 @@
+import { calculateHybridMetrics, calculateMetrics, Scenario, ScenarioResult } from './calculator';
+import { MessageKey, Translate } from './i18n';
+import { SheetRows, toCsvNumber } from './spreadsheet';
+
+export type ChartMode = 'human' | 'ai' | 'hybrid';
+
+export interface ModeMetrics {
+  mode: ChartMode;
+  metrics: ScenarioResult;
+}
+
+export const MODE_COLORS: Record<ChartMode, string> = {
+  human: '239, 68, 68',
+  ai: '34, 197, 94',
+  hybrid: '56, 189, 248'
+};
+
+export const MODE_LABEL_KEYS: Record<ChartMode, MessageKey> = {
+  human: 'mode.human',
+  ai: 'mode.ai',
+  hybrid: 'mode.hybrid'
+};
+
+// The three modes of a scenario that is not the one on screen, such as a saved scenario in the what-if chart
+export function scenarioModes(scenario: Scenario): ModeMetrics[] {
+  return [
+    { mode: 'human', metrics: calculateMetrics(scenario, false) },
+    { mode: 'ai', metrics: calculateMetrics(scenario, true) },
+    { mode: 'hybrid', metrics: calculateHybridMetrics(scenario) }
+  ];
+}
+
+const REVENUE_COST_SERIES: { labelKey: MessageKey; color: string; value: (metrics: ScenarioResult) => number }[] = [
+  { labelKey: 'charts.revenueCost.revenue', color: '34, 197, 94', value: (metrics) => metrics.revenue },
+  { labelKey: 'charts.revenueCost.cost', color: '239, 68, 68', value: (metrics) => metrics.monthlyCost },
+  { labelKey: 'charts.revenueCost.profit', color: '56, 189, 248', value: (metrics) => metrics.revenue - metrics.monthlyCost }
+];
+
+// Revenue, cost and profit per mode, all money on one currency axis. Used on screen, in the saved-scenario
+// comparison and in the proposal PDF.
+export function buildRevenueCostChartData(modes: ModeMetrics[], t: Translate) {
+  return {
+    labels: modes.map(({ mode }) => t(MODE_LABEL_KEYS[mode])),
+    datasets: REVENUE_COST_SERIES.map((series) => ({
+      label: t(series.labelKey),
+      data: modes.map(({ metrics }) => series.value(metrics)),
+      backgroundColor: `rgba(${series.color}, 0.5)`,
+      borderColor: `rgba(${series.color}, 1)`,
+      borderWidth: 1
+    }))
+  };
+}
+
+export interface FunnelRow {
+  mode: ChartMode;
+  contacts: number;
+  respondedContacts: number;
+  conversions: number;
+  revenue: number;
+}
+
+export interface WaterfallStep {
+  labelKey: MessageKey;
+  value: number;
+  start: number;
+  end: number;
+  isTotal: boolean;
+}
+
+export function buildFunnel({ metrics, assumptions }: Scenario, modes: ModeMetrics[]): FunnelRow[] {
+  const contacts = metrics.contactsPerDay * assumptions.daysPerMonth;
+  return modes.map(({ mode, metrics: result }) => ({
+    mode,
+    contacts,
+    respondedContacts: result.respondedContacts,
+    conversions: result.conversions,
+    revenue: result.revenue
+  }));
+}
+
+// Splits the revenue gap between the human and AI flows into its two causes: leads the human team never answers
+// (valued at the human conversion rate) and the lower conversion of the leads it does answer. The two steps add
+// up exactly to the AI revenue.
+export function buildRevenueWaterfall({ metrics }: Scenario, human: ScenarioResult, ai: ScenarioResult): WaterfallStep[] {
+  const lostLeads = (ai.respondedContacts - human.respondedContacts) * (human.conversionRate / 100) * metrics.ticketValue;
+  const lowerConversion = ai.respondedContacts * ((ai.conversionRate - human.conversionRate) / 100) * metrics.ticketValue;
+
+  const steps: WaterfallStep[] = [
+    { labelKey: 'charts.waterfall.humanRevenue', value: human.revenue, start: 0, end: human.revenue, isTotal: true }
+  ];
+  let level = human.revenue;
+  for (const [labelKey, value] of [
+    ['charts.waterfall.lostLeads', lostLeads],
+    ['charts.waterfall.lowerConversion', lowerConversion]
+  ] as const) {
+    steps.push({ labelKey, value, start: level, end: level + value, isTotal: false });
+    level += value;
+  }
+  steps.push({ labelKey: 'charts.waterfall.aiRevenue', value: ai.revenue, start: 0, end: ai.revenue, isTotal: true });
+  return steps;
+}
+
+// CSV values stay in the app's base currency, like the batch export
+export function funnelToSheet(rows: FunnelRow[], t: Translate): SheetRows {
+  return [
+    ['mode', 'contacts', 'respondedContacts', 'conversions', 'revenue'],
+    ...rows.map((row) => [
+      t(MODE_LABEL_KEYS[row.mode]),
+      toCsvNumber(row.contacts),
+      toCsvNumber(row.respondedContacts),
+      toCsvNumber(row.conversions),
+      toCsvNumber(row.revenue)
+    ])
+  ];
+}
+
+export function revenueCostToSheet(modes: ModeMetrics[], t: Translate): SheetRows {
+  return [
+    ['mode', 'revenue', 'monthlyCost', 'profit'],
+    ...modes.map(({ mode, metrics }) => [
+      t(MODE_LABEL_KEYS[mode]),
+      toCsvNumber(metrics.revenue),
+      toCsvNumber(metrics.monthlyCost),
+      toCsvNumber(metrics.revenue - metrics.monthlyCost)
+    ])
+  ];
+}
+
+export function waterfallToSheet(steps: WaterfallStep[], t: Translate): SheetRows {
+  return [
+    ['step', 'value', 'cumulative'],
+    ...steps.map((step) => [t(step.labelKey), toCsvNumber(step.value), toCsvNumber(step.end)])
+  ];
+}
+
+// One row per mode with both scenarios side by side; `compared` must list the modes in the same order as `current`
+export function whatIfToSheet(current: ModeMetrics[], compared: ModeMetrics[], t: Translate): SheetRows {
+  const profit = ({ metrics }: ModeMetrics) => metrics.revenue - metrics.monthlyCost;
+  return [
+    ['mode', 'revenue', 'monthlyCost', 'profit', 'comparedRevenue', 'comparedMonthlyCost', 'comparedProfit', 'profitChange'],
+    ...current.map((item, index) => {
+      const other = compared[index];
+      return [
+        t(MODE_LABEL_KEYS[item.mode]),
+        toCsvNumber(item.metrics.revenue),
+        toCsvNumber(item.metrics.monthlyCost),
+        toCsvNumber(profit(item)),
+        toCsvNumber(other.metrics.revenue),
+        toCsvNumber(other.metrics.monthlyCost),
+        toCsvNumber(profit(other)),
+        toCsvNumber(profit(other) - profit(item))
+      ];
+    })
+  ];
+}
@@ -0,0 +1,69 @@
+import {
+  Chart as ChartJS,
+  BarController,
+  BarElement,
+  CategoryScale,
+  Legend,
+  LinearScale,
+  Plugin,
+  Title,
+} from 'chart.js';
+import { ScenarioResult } from './calculator';
+import { buildRevenueCostChartData } from './chartData';
+import { I18n } from './i18n';
+
+ChartJS.register(BarController, BarElement, CategoryScale, LinearScale, Legend, Title);
+
+export interface ChartImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+const WIDTH = 1200;
+const HEIGHT = 600;
+
+// JPEG has no transparency, so paint the page color behind the bars
+const whiteBackground: Plugin<'bar'> = {
+  id: 'whiteBackground',
+  beforeDraw: (chart) => {
+    const { ctx } = chart;
+    ctx.save();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, chart.width, chart.height);
+    ctx.restore();
+  },
+};
+
+// Renders the comparison chart offscreen in print colors, independent of the dark on-screen chart
+export function renderComparisonChartImage(humanMetrics: ScenarioResult, aiMetrics: ScenarioResult, i18n: I18n): ChartImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+
+  const chart = new ChartJS(canvas, {
+    type: 'bar',
+    data: buildRevenueCostChartData([{ mode: 'human', metrics: humanMetrics }, { mode: 'ai', metrics: aiMetrics }], i18n.t),
+    options: {
+      animation: false,
+      responsive: false,
+      devicePixelRatio: 1,
+      plugins: {
+        legend: { position: 'top', labels: { color: '#1f2937', font: { size: 18 } } },
+        title: { display: true, text: i18n.t('chart.title'), color: '#1f2937', font: { size: 22 } },
+      },
+      scales: {
+        x: { ticks: { color: '#374151', font: { size: 16 } }, grid: { color: 'rgba(107, 114, 128, 0.2)' } },
+        y: {
+          ticks: { color: '#374151', font: { size: 16 }, callback: (value) => i18n.formatCompactCurrency(Number(value)) },
+          grid: { color: 'rgba(107, 114, 128, 0.2)' },
+        },
+      },
+    },
+    plugins: [whiteBackground],
+  });
+
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.92);
+  chart.destroy();
+  return { dataUrl, width: WIDTH, height: HEIGHT };
+}
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversionCurve, DEFAULT_CONVERSION_CURVE, getConversionRate } from './conversionCurve';
+
+const linear: ConversionCurve = { ...DEFAULT_CONVERSION_CURVE, interpolation: 'linear' };
+
+describe('getConversionRate', () => {
+  it('holds each step rate up to its breakpoint', () => {
+    assert.equal(getConversionRate(DEFAULT_CONVERSION_CURVE, 1), 40);
+    assert.equal(getConversionRate(DEFAULT_CONVERSION_CURVE, 1.5), 30);
+    assert.equal(getConversionRate(DEFAULT_CONVERSION_CURVE, 180), 1);
+  });
+
+  it('interpolates between breakpoints in linear mode', () => {
+    assert.equal(getConversionRate(linear, 1.5), 35);
+    assert.equal(getConversionRate(linear, 7.5), 19);
+    assert.equal(getConversionRate(linear, 10), 18);
+  });
+
+  it('keeps the first rate before the first breakpoint and the last one past the end', () => {
+    assert.equal(getConversionRate(linear, 0), 40);
+    assert.equal(getConversionRate(linear, 600), 1);
+  });
+
+  it('sorts breakpoints typed out of order', () => {
+    const curve: ConversionCurve = {
+      breakpoints: [{ maxMinutes: 10, conversionRate: 10 }, { maxMinutes: 0, conversionRate: 30 }],
+      interpolation: 'linear'
+    };
+    assert.equal(getConversionRate(curve, 5), 20);
+  });
+
+  it('has no rate without breakpoints', () => {
+    assert.equal(getConversionRate({ breakpoints: [], interpolation: 'linear' }, 5), 0);
+  });
+});
@@ -0,0 +1,73 @@
+import { MessageKey } from './i18n';
+
+export interface CurveBreakpoint {
+  maxMinutes: number;
+  conversionRate: number;
+}
+
+export type InterpolationMode = 'step' | 'linear';
+
+export interface ConversionCurve {
+  breakpoints: CurveBreakpoint[];
+  interpolation: InterpolationMode;
+}
+
+export interface CurvePreset {
+  id: string;
+  nameKey: MessageKey;
+  curve: ConversionCurve;
+}
+
+const stepCurve = (points: [number, number][]): ConversionCurve => ({
+  breakpoints: points.map(([maxMinutes, conversionRate]) => ({ maxMinutes, conversionRate })),
+  interpolation: 'step'
+});
+
+export const DEFAULT_CONVERSION_CURVE = stepCurve([
+  [1, 40], [2, 30], [3, 25], [4, 22], [5, 20], [10, 18], [20, 15], [30, 10], [40, 8], [60, 1]
+]);
+
+export const CURVE_PRESETS: CurvePreset[] = [
+  { id: 'default', nameKey: 'curve.preset.default', curve: DEFAULT_CONVERSION_CURVE },
+  {
+    id: 'dental',
+    nameKey: 'curve.preset.dental',
+    curve: stepCurve([[1, 35], [5, 25], [15, 18], [30, 12], [60, 6], [240, 3], [1440, 1]])
+  },
+  {
+    id: 'aesthetic',
+    nameKey: 'curve.preset.aesthetic',
+    curve: stepCurve([[1, 45], [5, 32], [15, 22], [30, 15], [60, 8], [240, 4], [1440, 2]])
+  },
+  {
+    id: 'lab',
+    nameKey: 'curve.preset.lab',
+    curve: stepCurve([[1, 50], [5, 42], [15, 35], [30, 28], [60, 20], [240, 12], [1440, 6]])
+  }
+];
+
+export function sortBreakpoints(breakpoints: CurveBreakpoint[]): CurveBreakpoint[] {
+  return [...breakpoints].sort((a, b) => a.maxMinutes - b.maxMinutes);
+}
+
+// Times past the last breakpoint keep its rate, so the curve never drops to zero
+export function getConversionRate(curve: ConversionCurve, minutes: number): number {
+  const breakpoints = sortBreakpoints(curve.breakpoints);
+  if (breakpoints.length === 0) return 0;
+
+  const index = breakpoints.findIndex((point) => minutes <= point.maxMinutes);
+  if (index === -1) return breakpoints[breakpoints.length - 1].conversionRate;
+  if (curve.interpolation === 'step' || index === 0) return breakpoints[index].conversionRate;
+
+  const previous = breakpoints[index - 1];
+  const next = breakpoints[index];
+  const span = next.maxMinutes - previous.maxMinutes;
+  if (span <= 0) return next.conversionRate;
+
+  const progress = (minutes - previous.maxMinutes) / span;
+  return previous.conversionRate + (next.conversionRate - previous.conversionRate) * progress;
+}
+
+export function findPresetId(curve: ConversionCurve): string | undefined {
+  return CURVE_PRESETS.find((preset) => JSON.stringify(preset.curve) === JSON.stringify(curve))?.id;
+}
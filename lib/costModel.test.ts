@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  aiBillableUnits,
+  applyCostBreakdown,
+  DEFAULT_AI_COSTS,
+  DEFAULT_COST_BREAKDOWN,
+  DEFAULT_HUMAN_COSTS,
+  estimateAiCost,
+  humanCostLines,
+  humanMonthlyCost,
+} from './costModel';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+describe('humanCostLines', () => {
+  it('adds the CLT provisions and charges to the salary', () => {
+    const lines = humanCostLines(DEFAULT_HUMAN_COSTS);
+    assert.deepEqual(
+      lines.map((line) => [line.labelKey, round2(line.value)]),
+      [
+        ['costs.human.salary', 2200],
+        ['costs.human.thirteenth', 183.33],
+        ['costs.human.vacation', 244.44],
+        ['costs.human.inss', 525.56],
+        ['costs.human.fgts', 210.22],
+        ['costs.human.benefits', 700],
+        ['costs.human.training', 100],
+        ['costs.human.turnover', 100]
+      ]
+    );
+    assert.equal(round2(humanMonthlyCost(DEFAULT_HUMAN_COSTS)), 4263.56);
+  });
+
+  it('scales every line by the headcount', () => {
+    const single = humanCostLines(DEFAULT_HUMAN_COSTS);
+    const team = humanCostLines(DEFAULT_HUMAN_COSTS, 3);
+    team.forEach((line, index) => assert.equal(line.value, single[index].value * 3));
+  });
+});
+
+describe('estimateAiCost', () => {
+  it('bills only the conversations the AI takes part in', () => {
+    assert.equal(aiBillableUnits(DEFAULT_AI_COSTS, DEFAULT_SCENARIO), 2850);
+    assert.equal(aiBillableUnits({ ...DEFAULT_AI_COSTS, billingUnit: 'message' }, DEFAULT_SCENARIO), 2850 * 12);
+  });
+
+  it('picks the cheapest tier for the volume', () => {
+    const estimate = estimateAiCost(DEFAULT_AI_COSTS, DEFAULT_SCENARIO);
+    assert.equal(estimate.tier?.name, 'Avançado');
+    assert.equal(estimate.total, 1990);
+
+    const small = estimateAiCost(DEFAULT_AI_COSTS, {
+      ...DEFAULT_SCENARIO,
+      metrics: { ...DEFAULT_SCENARIO.metrics, contactsPerDay: 10 }
+    });
+    assert.equal(small.tier?.name, 'Essencial');
+    assert.equal(small.total, 490);
+  });
+
+  it('charges overage above the included units', () => {
+    const estimate = estimateAiCost({ ...DEFAULT_AI_COSTS, billingUnit: 'message' }, DEFAULT_SCENARIO);
+    assert.equal(estimate.tier?.name, 'Avançado');
+    assert.equal(round2(estimate.total), 1990 + (34200 - 4000) * 0.6);
+  });
+
+  it('leaves the one-off setup fee out of the monthly cost', () => {
+    const withSetup = estimateAiCost({ ...DEFAULT_AI_COSTS, setupFee: 50000 }, DEFAULT_SCENARIO);
+    assert.equal(withSetup.total, estimateAiCost({ ...DEFAULT_AI_COSTS, setupFee: 0 }, DEFAULT_SCENARIO).total);
+  });
+});
+
+describe('applyCostBreakdown', () => {
+  it('replaces the flat costs and drops the per-hour costs', () => {
+    const { metrics } = applyCostBreakdown(DEFAULT_SCENARIO, DEFAULT_COST_BREAKDOWN);
+    assert.equal(round2(metrics.humanMonthlyCost), 4263.56);
+    assert.equal(metrics.aiCostPerMonth, 1990);
+    assert.equal(metrics.humanCostPerHour, 0);
+    assert.equal(metrics.aiCostPerHour, 0);
+  });
+});
@@ -0,0 +1,143 @@
+import { Scenario } from './calculator';
+import { MessageKey, MessageParams } from './i18n';
+
+// Cost of one attendant per month; the headcount comes from the capacity model when it is on
+export interface HumanCostBreakdown {
+  baseSalary: number;
+  inssRate: number;
+  fgtsRate: number;
+  benefitsPerMonth: number;
+  trainingPerYear: number;
+  annualTurnoverRate: number;
+  replacementCost: number;
+}
+
+export type AiBillingUnit = 'conversation' | 'message';
+
+export interface AiPlanTier {
+  name: string;
+  monthlyFee: number;
+  includedUnits: number;
+  overageRate: number;
+}
+
+export interface AiCostBreakdown {
+  billingUnit: AiBillingUnit;
+  messagesPerConversation: number;
+  tiers: AiPlanTier[];
+  // Paid once, before the first month: the projection charges it up front, so it stays out of the monthly cost
+  setupFee: number;
+}
+
+export interface CostBreakdown {
+  human: HumanCostBreakdown;
+  ai: AiCostBreakdown;
+}
+
+export interface CostLine {
+  labelKey: MessageKey;
+  params?: MessageParams;
+  value: number;
+}
+
+export interface AiCostEstimate {
+  tier: AiPlanTier | null;
+  units: number;
+  lines: CostLine[];
+  total: number;
+}
+
+export const DEFAULT_HUMAN_COSTS: HumanCostBreakdown = {
+  baseSalary: 2200,
+  inssRate: 20,
+  fgtsRate: 8,
+  benefitsPerMonth: 700,
+  trainingPerYear: 1200,
+  annualTurnoverRate: 40,
+  replacementCost: 3000
+};
+
+export const DEFAULT_AI_COSTS: AiCostBreakdown = {
+  billingUnit: 'conversation',
+  messagesPerConversation: 12,
+  tiers: [
+    { name: 'Essencial', monthlyFee: 490, includedUnits: 500, overageRate: 1.2 },
+    { name: 'Profissional', monthlyFee: 990, includedUnits: 1500, overageRate: 0.9 },
+    { name: 'Avançado', monthlyFee: 1990, includedUnits: 4000, overageRate: 0.6 }
+  ],
+  setupFee: 3000
+};
+
+export const DEFAULT_COST_BREAKDOWN: CostBreakdown = {
+  human: DEFAULT_HUMAN_COSTS,
+  ai: DEFAULT_AI_COSTS
+};
+
+const sumLines = (lines: CostLine[]) => lines.reduce((sum, line) => sum + line.value, 0);
+
+// CLT provisions: 13th salary is 1/12 of the salary per month, vacation is 1/12 plus the constitutional 1/3 bonus.
+// INSS and FGTS are charged over all three.
+export function humanCostLines(costs: HumanCostBreakdown, headcount = 1): CostLine[] {
+  const salary = costs.baseSalary;
+  const thirteenth = salary / 12;
+  const vacation = (salary + salary / 3) / 12;
+  const payroll = salary + thirteenth + vacation;
+  const lines: CostLine[] = [
+    { labelKey: 'costs.human.salary', value: salary },
+    { labelKey: 'costs.human.thirteenth', value: thirteenth },
+    { labelKey: 'costs.human.vacation', value: vacation },
+    { labelKey: 'costs.human.inss', params: { rate: costs.inssRate }, value: payroll * (costs.inssRate / 100) },
+    { labelKey: 'costs.human.fgts', params: { rate: costs.fgtsRate }, value: payroll * (costs.fgtsRate / 100) },
+    { labelKey: 'costs.human.benefits', value: costs.benefitsPerMonth },
+    { labelKey: 'costs.human.training', value: costs.trainingPerYear / 12 },
+    { labelKey: 'costs.human.turnover', value: (costs.annualTurnoverRate / 100) * costs.replacementCost / 12 }
+  ];
+  return lines.map((line) => ({ ...line, value: line.value * headcount }));
+}
+
+export function humanMonthlyCost(costs: HumanCostBreakdown): number {
+  return sumLines(humanCostLines(costs));
+}
+
+// Conversations the AI actually takes part in: leads it loses never reach the vendor's meter
+export function aiBillableUnits(costs: AiCostBreakdown, { metrics, assumptions }: Scenario): number {
+  const conversations = metrics.contactsPerDay * assumptions.daysPerMonth * (1 - assumptions.aiLostLeadsRate);
+  return costs.billingUnit === 'message' ? conversations * costs.messagesPerConversation : conversations;
+}
+
+const tierCost = (tier: AiPlanTier, units: number) =>
+  tier.monthlyFee + Math.max(0, units - tier.includedUnits) * tier.overageRate;
+
+// The cheapest tier for the volume is assumed, as a clinic would pick when signing up
+export function estimateAiCost(costs: AiCostBreakdown, scenario: Scenario): AiCostEstimate {
+  const units = aiBillableUnits(costs, scenario);
+  const tier = costs.tiers.reduce<AiPlanTier | null>(
+    (best, candidate) => (best === null || tierCost(candidate, units) < tierCost(best, units) ? candidate : best),
+    null
+  );
+  const overageUnits = tier ? Math.max(0, units - tier.includedUnits) : 0;
+  const lines: CostLine[] = [
+    { labelKey: 'costs.ai.plan', params: { name: tier?.name ?? '—' }, value: tier?.monthlyFee ?? 0 },
+    {
+      labelKey: costs.billingUnit === 'message' ? 'costs.ai.overageMessages' : 'costs.ai.overageConversations',
+      params: { count: Math.round(overageUnits) },
+      value: tier ? overageUnits * tier.overageRate : 0
+    }
+  ];
+  return { tier, units, lines, total: sumLines(lines) };
+}
+
+// The detailed costs replace the flat inputs: salaries already pay for the attendance hours and AI vendors bill
+// by volume, so the per-hour costs drop out
+export function applyCostBreakdown(scenario: Scenario, costs: CostBreakdown): Scenario {
+  return {
+    ...scenario,
+    metrics: {
+      ...scenario.metrics,
+      humanMonthlyCost: humanMonthlyCost(costs.human),
+      humanCostPerHour: 0,
+      aiCostPerMonth: estimateAiCost(costs.ai, scenario).total,
+      aiCostPerHour: 0
+    }
+  };
+}
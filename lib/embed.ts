@@ -0,0 +1,146 @@
+import { calculateMetrics, MetricsType, Scenario, ScenarioResult } from './calculator';
+import { parseDecimal } from './format';
+import { CURRENCIES, CurrencyCode, DEFAULT_EXCHANGE_RATES, Locale, LOCALES } from './i18n';
+import { hasSufficientData, METRIC_RULES, validateNumber } from './validation';
+
+export interface EmbedTheme {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+  accent: string;
+  human: string;
+  ai: string;
+  radius: string;
+  font: string;
+}
+
+export type EmbedThemeName = 'dark' | 'light';
+
+export interface EmbedResult {
+  metrics: MetricsType;
+  human: ScenarioResult;
+  ai: ScenarioResult;
+  annualProfitGain: number;
+  sufficientData: boolean;
+}
+
+export interface EmbedLocale {
+  locale: Locale;
+  currency: CurrencyCode;
+  exchangeRate: number;
+}
+
+// Used both as the DOM event name and as the `type` of the postMessage payload
+export const EMBED_RESULT_EVENT = 'pfixo-calculadora:result';
+
+export const EMBED_THEMES: Record<EmbedThemeName, EmbedTheme> = {
+  dark: {
+    background: '#111827',
+    surface: '#1f2937',
+    border: '#374151',
+    text: '#e5e7eb',
+    muted: '#9ca3af',
+    accent: '#22d3ee',
+    human: '#f87171',
+    ai: '#4ade80',
+    radius: '0.5rem',
+    font: 'inherit'
+  },
+  light: {
+    background: '#ffffff',
+    surface: '#f9fafb',
+    border: '#d1d5db',
+    text: '#111827',
+    muted: '#6b7280',
+    accent: '#0891b2',
+    human: '#dc2626',
+    ai: '#16a34a',
+    radius: '0.5rem',
+    font: 'inherit'
+  }
+};
+
+const THEME_ATTRIBUTES: Record<keyof EmbedTheme, string> = {
+  background: 'background',
+  surface: 'surface-color',
+  border: 'border-color',
+  text: 'text-color',
+  muted: 'muted-color',
+  accent: 'accent-color',
+  human: 'human-color',
+  ai: 'ai-color',
+  radius: 'radius',
+  font: 'font-family'
+};
+
+const toKebabCase = (key: string) => key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// contactsPerDay -> contacts-per-day, as HTML attributes are case-insensitive
+export const METRIC_ATTRIBUTES = Object.fromEntries(
+  (Object.keys(METRIC_RULES) as (keyof MetricsType)[]).map((key) => [key, toKebabCase(key)])
+) as Record<keyof MetricsType, string>;
+
+export const EMBED_ATTRIBUTES = [
+  ...Object.values(METRIC_ATTRIBUTES),
+  ...Object.values(THEME_ATTRIBUTES),
+  'theme',
+  'locale',
+  'currency',
+  'exchange-rate',
+  'target-origin'
+];
+
+type ReadAttribute = (name: string) => string | null;
+
+// Attributes follow the same rules as the form: anything invalid is ignored and the default stays
+export function metricsFromAttributes(read: ReadAttribute): Partial<MetricsType> {
+  const metrics: Partial<MetricsType> = {};
+  for (const [key, attribute] of Object.entries(METRIC_ATTRIBUTES) as [keyof MetricsType, string][]) {
+    const text = read(attribute);
+    if (text === null) continue;
+    const result = validateNumber(text, METRIC_RULES[key], (value) => parseDecimal(value, '.'));
+    if (result.error === null) metrics[key] = result.value;
+  }
+  return metrics;
+}
+
+export function themeFromAttributes(read: ReadAttribute): EmbedTheme {
+  const base = EMBED_THEMES[read('theme') === 'light' ? 'light' : 'dark'];
+  const theme = { ...base };
+  for (const [key, attribute] of Object.entries(THEME_ATTRIBUTES) as [keyof EmbedTheme, string][]) {
+    const value = read(attribute)?.trim();
+    if (value) theme[key] = value;
+  }
+  return theme;
+}
+
+export function themeToCssVariables(theme: EmbedTheme): Record<string, string> {
+  return Object.fromEntries(
+    (Object.keys(theme) as (keyof EmbedTheme)[]).map((key) => [`--pfixo-${key}`, theme[key]])
+  );
+}
+
+export function localeFromAttributes(read: ReadAttribute): EmbedLocale {
+  const locale = LOCALES.find((item) => item.value === read('locale'))?.value ?? 'pt-BR';
+  const currency = CURRENCIES.find((item) => item === read('currency')?.toUpperCase()) ?? 'BRL';
+  const rate = Number(read('exchange-rate'));
+  return {
+    locale,
+    currency,
+    exchangeRate: currency === 'BRL' ? 1 : rate > 0 ? rate : DEFAULT_EXCHANGE_RATES[currency]
+  };
+}
+
+export function buildEmbedResult(scenario: Scenario): EmbedResult {
+  const human = calculateMetrics(scenario, false);
+  const ai = calculateMetrics(scenario, true);
+  return {
+    metrics: scenario.metrics,
+    human,
+    ai,
+    annualProfitGain: ai.annualProfit - human.annualProfit,
+    sufficientData: hasSufficientData(human) && hasSufficientData(ai)
+  };
+}
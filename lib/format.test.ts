@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDecimal } from './format';
+
+describe('parseDecimal', () => {
+  it('reads Brazilian and English notation when both separators appear', () => {
+    assert.equal(parseDecimal('1.200,50'), 1200.5);
+    assert.equal(parseDecimal('1,200.50'), 1200.5);
+    assert.equal(parseDecimal('R$ 12.345.678,9'), 12345678.9);
+  });
+
+  it('reads a lone separator by the locale decimal mark', () => {
+    assert.equal(parseDecimal('12,5'), 12.5);
+    assert.equal(parseDecimal('12.5', '.'), 12.5);
+    assert.equal(parseDecimal('0,25', ','), 0.25);
+  });
+
+  it('reads a grouping separator followed by three digits as thousands', () => {
+    assert.equal(parseDecimal('1.200'), 1200);
+    assert.equal(parseDecimal('1.200', '.'), 1.2);
+    assert.equal(parseDecimal('1,200', '.'), 1200);
+    assert.equal(parseDecimal('1.2'), 1.2);
+    assert.equal(parseDecimal('1.000.000'), 1000000);
+  });
+
+  it('keeps the sign', () => {
+    assert.equal(parseDecimal('-3,5'), -3.5);
+  });
+
+  it('rejects text without a number', () => {
+    assert.ok(Number.isNaN(parseDecimal('')));
+    assert.ok(Number.isNaN(parseDecimal('abc')));
+    assert.ok(Number.isNaN(parseDecimal('1-2')));
+  });
+});
@@ -0,0 +1,71 @@
+export interface FormatSettings {
+  locale: string;
+  currency: string;
+  // Values are computed in BRL; the rate converts them into the presentation currency
+  exchangeRate: number;
+}
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  locale: 'pt-BR',
+  currency: 'BRL',
+  exchangeRate: 1
+};
+
+export function formatCurrency(value: number, settings = DEFAULT_FORMAT_SETTINGS): string {
+  return (value * settings.exchangeRate).toLocaleString(settings.locale, { style: 'currency', currency: settings.currency });
+}
+
+export function formatPercent(value: number, settings = DEFAULT_FORMAT_SETTINGS): string {
+  return `${value.toLocaleString(settings.locale, { maximumFractionDigits: 1 })}%`;
+}
+
+export function formatNumber(value: number, maximumFractionDigits = 0, settings = DEFAULT_FORMAT_SETTINGS): string {
+  return value.toLocaleString(settings.locale, { maximumFractionDigits });
+}
+
+export function formatCompactCurrency(value: number, settings = DEFAULT_FORMAT_SETTINGS): string {
+  return (value * settings.exchangeRate).toLocaleString(settings.locale, {
+    style: 'currency',
+    currency: settings.currency,
+    notation: 'compact',
+    maximumFractionDigits: 1
+  });
+}
+
+export function getCurrencySymbol(settings = DEFAULT_FORMAT_SETTINGS): string {
+  const parts = new Intl.NumberFormat(settings.locale, { style: 'currency', currency: settings.currency }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value ?? settings.currency;
+}
+
+export function getDecimalSeparator(settings = DEFAULT_FORMAT_SETTINGS): ',' | '.' {
+  const parts = new Intl.NumberFormat(settings.locale).formatToParts(1.5);
+  return parts.find((part) => part.type === 'decimal')?.value === '.' ? '.' : ',';
+}
+
+// Accepts both "1.200,50" and "1,200.50": when both separators appear, the last one is the decimal mark.
+// A lone grouping separator followed by exactly three digits is read as thousands, as in "1.200" typed in Brazil.
+export function parseDecimal(text: string, decimalSeparator: ',' | '.' = ','): number {
+  const cleaned = text.replace(/[^\d,.-]/g, '');
+  if (!/\d/.test(cleaned)) return NaN;
+
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  const lastDecimal = cleaned.lastIndexOf(decimalSeparator);
+  const lastGroup = cleaned.lastIndexOf(groupSeparator);
+  const occurrences = (separator: string) => cleaned.split(separator).length - 1;
+  const removeAll = (value: string, separator: string) => value.split(separator).join('');
+  let normalized: string;
+  if (lastDecimal >= 0 && lastGroup >= 0) {
+    normalized = lastDecimal > lastGroup
+      ? removeAll(cleaned, groupSeparator).replace(decimalSeparator, '.')
+      : removeAll(cleaned, decimalSeparator).replace(groupSeparator, '.');
+  } else if (lastDecimal >= 0) {
+    normalized = occurrences(decimalSeparator) > 1 ? removeAll(cleaned, decimalSeparator) : cleaned.replace(decimalSeparator, '.');
+  } else if (lastGroup >= 0) {
+    const isThousands = occurrences(groupSeparator) > 1 || new RegExp(`^-?\\d{1,3}\\${groupSeparator}\\d{3}$`).test(cleaned);
+    normalized = isThousands ? removeAll(cleaned, groupSeparator) : cleaned.replace(groupSeparator, '.');
+  } else {
+    normalized = cleaned;
+  }
+
+  return /^-?\d*\.?\d+$/.test(normalized) ? Number(normalized) : NaN;
+}
@@ -0,0 +1,140 @@
+import {
+  formatCompactCurrency,
+  formatCurrency,
+  FormatSettings,
+  formatNumber,
+  formatPercent,
+  getCurrencySymbol,
+  getDecimalSeparator,
+  parseDecimal,
+} from './format';
+import en from './locales/en';
+import es from './locales/es';
+import ptBR from './locales/pt-BR';
+import ptPT from './locales/pt-PT';
+
+export type Locale = 'pt-BR' | 'pt-PT' | 'es' | 'en';
+export type CurrencyCode = 'BRL' | 'EUR' | 'USD' | 'MXN';
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Carries a catalog key so the UI can show the reason in the selected language
+export class CatalogError extends Error {
+  constructor(readonly messageKey: MessageKey, readonly params?: MessageParams) {
+    super(messageKey);
+    this.name = 'CatalogError';
+  }
+}
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'pt-PT', label: 'Português (Portugal)' },
+  { value: 'es', label: 'Español' },
+  { value: 'en', label: 'English' },
+];
+
+export const CURRENCIES: CurrencyCode[] = ['BRL', 'EUR', 'USD', 'MXN'];
+
+// Starting points only: the salesperson types the rate of the day
+export const DEFAULT_EXCHANGE_RATES: Record<CurrencyCode, number> = {
+  BRL: 1,
+  EUR: 0.17,
+  USD: 0.18,
+  MXN: 3.3
+};
+
+const CATALOGS: Record<Locale, Messages> = {
+  'pt-BR': ptBR,
+  'pt-PT': ptPT,
+  es,
+  en
+};
+
+export interface I18n {
+  locale: Locale;
+  currency: CurrencyCode;
+  exchangeRate: number;
+  currencySymbol: string;
+  t: Translate;
+  formatCurrency: (value: number) => string;
+  formatCompactCurrency: (value: number) => string;
+  formatNumber: (value: number, maximumFractionDigits?: number) => string;
+  formatPercent: (value: number) => string;
+  formatDate: (date: Date) => string;
+  formatDateTime: (date: Date) => string;
+  parseNumber: (text: string) => number;
+}
+
+export function translate(messages: Messages, key: MessageKey, params?: MessageParams): string {
+  const message = messages[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function createI18n(locale: Locale = 'pt-BR', currency: CurrencyCode = 'BRL', exchangeRate = 1): I18n {
+  const messages = CATALOGS[locale];
+  const settings: FormatSettings = { locale, currency, exchangeRate };
+  const decimalSeparator = getDecimalSeparator(settings);
+
+  return {
+    locale,
+    currency,
+    exchangeRate,
+    currencySymbol: getCurrencySymbol(settings),
+    t: (key, params) => translate(messages, key, params),
+    formatCurrency: (value) => formatCurrency(value, settings),
+    formatCompactCurrency: (value) => formatCompactCurrency(value, settings),
+    formatNumber: (value, maximumFractionDigits = 0) => formatNumber(value, maximumFractionDigits, settings),
+    formatPercent: (value) => formatPercent(value, settings),
+    formatDate: (date) => date.toLocaleDateString(locale),
+    formatDateTime: (date) => date.toLocaleString(locale),
+    parseNumber: (text) => parseDecimal(text, decimalSeparator)
+  };
+}
+
+export interface LocaleSettings {
+  locale: Locale;
+  currency: CurrencyCode;
+  exchangeRate: number;
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  locale: 'pt-BR',
+  currency: 'BRL',
+  exchangeRate: 1
+};
+
+const STORAGE_KEY = 'pfixo-calculadora:locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some((item) => item.value === value);
+const isCurrency = (value: unknown): value is CurrencyCode => CURRENCIES.includes(value as CurrencyCode);
+
+export function loadLocaleSettings(): LocaleSettings {
+  try {
+    const stored: Record<string, unknown> = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const currency = isCurrency(stored.currency) ? stored.currency : DEFAULT_LOCALE_SETTINGS.currency;
+    const exchangeRate = typeof stored.exchangeRate === 'number' && stored.exchangeRate > 0
+      ? stored.exchangeRate
+      : DEFAULT_EXCHANGE_RATES[currency];
+    return {
+      locale: isLocale(stored.locale) ? stored.locale : DEFAULT_LOCALE_SETTINGS.locale,
+      currency,
+      // BRL is the calculation currency, so it never carries a rate
+      exchangeRate: currency === 'BRL' ? 1 : exchangeRate
+    };
+  } catch {
+    return DEFAULT_LOCALE_SETTINGS;
+  }
+}
+
+// Private browsing and a full quota make setItem throw; the choice then only lasts until the page closes
+export function saveLocaleSettings(settings: LocaleSettings): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    return true;
+  } catch {
+    return false;
+  }
+}
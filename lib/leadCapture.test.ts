@@ -0,0 +1,127 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetrics } from './calculator';
+import {
+  createLeadAdapter,
+  createQueuedAdapter,
+  EMPTY_LEAD_CONTACT,
+  LeadAdapter,
+  LeadSubmission,
+  LeadSubmitError,
+  validateLeadContact,
+} from './leadCapture';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+// Node has no localStorage; this one can also refuse writes like a full or private-mode browser storage
+const storage = new Map<string, string>();
+let refuseWrites = false;
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (refuseWrites) throw new Error('QuotaExceededError');
+      storage.set(key, value);
+    },
+  },
+});
+
+const submission: LeadSubmission = {
+  contact: { name: 'Ana', clinic: 'Clínica Sorriso', phone: '(11) 98765-4321', email: 'ana@example.com', consent: true },
+  consentText: 'Autorizo',
+  locale: 'pt-BR',
+  submittedAt: '2024-05-01T12:00:00.000Z',
+  scenario: DEFAULT_SCENARIO,
+  humanMetrics: calculateMetrics(DEFAULT_SCENARIO, false),
+  aiMetrics: calculateMetrics(DEFAULT_SCENARIO, true),
+};
+
+const failing = (error: LeadSubmitError): LeadAdapter => ({
+  submit: async () => {
+    throw error;
+  },
+});
+
+beforeEach(() => {
+  storage.clear();
+  refuseWrites = false;
+});
+
+describe('validateLeadContact', () => {
+  it('requires every field and the consent', () => {
+    assert.deepEqual(validateLeadContact(EMPTY_LEAD_CONTACT), {
+      name: 'validation.required',
+      clinic: 'validation.required',
+      phone: 'validation.required',
+      email: 'validation.required',
+      consent: 'leads.error.consent',
+    });
+  });
+
+  it('checks the phone and email formats', () => {
+    const errors = validateLeadContact({ ...submission.contact, phone: '98765', email: 'ana@' });
+    assert.deepEqual(errors, { phone: 'leads.error.phone', email: 'leads.error.email' });
+    assert.deepEqual(validateLeadContact(submission.contact), {});
+  });
+});
+
+describe('createQueuedAdapter', () => {
+  it('queues retryable failures', async () => {
+    const adapter = createQueuedAdapter(failing(new LeadSubmitError('leads.error.network', undefined, true)));
+    assert.equal(await adapter.submit(submission), 'queued');
+    assert.equal(adapter.pending(), 1);
+  });
+
+  it('reports refused leads without queueing them', async () => {
+    const adapter = createQueuedAdapter(failing(new LeadSubmitError('leads.error.server', { status: 422 })));
+    await assert.rejects(adapter.submit(submission), { messageKey: 'leads.error.server' });
+    assert.equal(adapter.pending(), 0);
+  });
+
+  it('reports the failure when the lead cannot be stored', async () => {
+    refuseWrites = true;
+    const adapter = createQueuedAdapter(failing(new LeadSubmitError('leads.error.network', undefined, true)));
+    await assert.rejects(adapter.submit(submission), { messageKey: 'leads.error.network' });
+  });
+
+  it('sends each queued lead once when flushes overlap', async () => {
+    let online = false;
+    const delivered: LeadSubmission[] = [];
+    const adapter = createQueuedAdapter({
+      submit: async (lead) => {
+        if (!online) throw new LeadSubmitError('leads.error.network', undefined, true);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        delivered.push(lead);
+        return 'sent';
+      },
+    });
+    await adapter.submit(submission);
+    await adapter.submit(submission);
+
+    online = true;
+    const [first, second] = await Promise.all([adapter.flush(), adapter.flush()]);
+    assert.equal(first, 2);
+    assert.equal(second, 2);
+    assert.equal(delivered.length, 2);
+    assert.equal(adapter.pending(), 0);
+  });
+});
+
+describe('createLeadAdapter', () => {
+  it('refuses leads when no webhook is configured outside development', async () => {
+    const adapter = createLeadAdapter(undefined, false);
+    await assert.rejects(adapter.submit(submission), { messageKey: 'leads.error.notConfigured' });
+    assert.equal(adapter.pending(), 0);
+  });
+
+  it('refuses leads without a webhook even while offline, instead of queueing them', async () => {
+    Object.defineProperty(globalThis, 'navigator', { value: { onLine: false }, configurable: true });
+    try {
+      const adapter = createLeadAdapter(undefined, false);
+      await assert.rejects(adapter.submit(submission), { messageKey: 'leads.error.notConfigured' });
+      assert.equal(adapter.pending(), 0);
+      assert.equal(storage.size, 0);
+    } finally {
+      Reflect.deleteProperty(globalThis, 'navigator');
+    }
+  });
+});
@@ -0,0 +1,194 @@
+import { Scenario, ScenarioResult } from './calculator';
+import { CatalogError, Locale, MessageKey, MessageParams } from './i18n';
+
+export interface LeadContact {
+  name: string;
+  clinic: string;
+  phone: string;
+  email: string;
+  consent: boolean;
+}
+
+export interface LeadSubmission {
+  contact: LeadContact;
+  // The exact wording the visitor agreed to, kept as proof of consent
+  consentText: string;
+  locale: Locale;
+  submittedAt: string;
+  scenario: Scenario;
+  humanMetrics: ScenarioResult;
+  aiMetrics: ScenarioResult;
+}
+
+export type LeadFieldErrors = Partial<Record<keyof LeadContact, MessageKey>>;
+
+export type LeadSubmitStatus = 'sent' | 'queued';
+
+export interface LeadAdapter {
+  submit: (submission: LeadSubmission) => Promise<LeadSubmitStatus>;
+}
+
+export interface QueuedLeadAdapter extends LeadAdapter {
+  // Resends what is waiting in the queue and returns how many went through
+  flush: () => Promise<number>;
+  pending: () => number;
+}
+
+// Retryable failures (network, 5xx) are queued for a later flush instead of shown to the visitor
+export class LeadSubmitError extends CatalogError {
+  name = 'LeadSubmitError';
+
+  constructor(messageKey: MessageKey, params?: MessageParams, readonly retryable = false) {
+    super(messageKey, params);
+  }
+}
+
+export const EMPTY_LEAD_CONTACT: LeadContact = {
+  name: '',
+  clinic: '',
+  phone: '',
+  email: '',
+  consent: false
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Brazilian numbers with area code, with or without the 55 country code: (11) 98765-4321
+const isValidPhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 10 && digits.length <= 13;
+};
+
+export function validateLeadContact(contact: LeadContact): LeadFieldErrors {
+  const errors: LeadFieldErrors = {};
+  if (!contact.name.trim()) errors.name = 'validation.required';
+  if (!contact.clinic.trim()) errors.clinic = 'validation.required';
+  if (!contact.phone.trim()) errors.phone = 'validation.required';
+  else if (!isValidPhone(contact.phone)) errors.phone = 'leads.error.phone';
+  if (!contact.email.trim()) errors.email = 'validation.required';
+  else if (!EMAIL_PATTERN.test(contact.email.trim())) errors.email = 'leads.error.email';
+  if (!contact.consent) errors.consent = 'leads.error.consent';
+  return errors;
+}
+
+export function createWebhookAdapter(url: string): LeadAdapter {
+  return {
+    submit: async (submission) => {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(submission)
+        });
+      } catch {
+        throw new LeadSubmitError('leads.error.network', undefined, true);
+      }
+      // A 4xx means the payload itself was refused, so sending it again would not help
+      if (!response.ok) throw new LeadSubmitError('leads.error.server', { status: response.status }, response.status >= 500);
+      return 'sent';
+    }
+  };
+}
+
+// Development stand-in for the webhook: waits like a request would and keeps the leads in memory
+export function createMockAdapter(delayMs = 600): LeadAdapter & { received: LeadSubmission[] } {
+  const received: LeadSubmission[] = [];
+  return {
+    received,
+    submit: async (submission) => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      received.push(submission);
+      return 'sent';
+    }
+  };
+}
+
+const QUEUE_STORAGE_KEY = 'pfixo-calculadora:lead-queue';
+const MAX_QUEUED_LEADS = 50;
+
+function readQueue(): LeadSubmission[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+// Returns false when the browser refuses to store it (private mode, quota exceeded)
+function writeQueue(queue: LeadSubmission[]): boolean {
+  try {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue.slice(-MAX_QUEUED_LEADS)));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keeps leads that could not be delivered (offline, server down) in localStorage until a later flush succeeds
+export function createQueuedAdapter(inner: LeadAdapter): QueuedLeadAdapter {
+  const isRetryable = (error: unknown) => error instanceof LeadSubmitError && error.retryable;
+  // A lead that cannot be stored would be lost without notice, so the visitor gets the delivery error instead
+  const enqueue = (submission: LeadSubmission, error: unknown): LeadSubmitStatus => {
+    if (!writeQueue([...readQueue(), submission])) throw error;
+    return 'queued';
+  };
+  // Both the mount and the `online` event flush; a second flush while one runs would send the same leads twice
+  let flushing: Promise<number> | null = null;
+
+  const flushQueue = async () => {
+    const queue = readQueue();
+    const remaining: LeadSubmission[] = [];
+    let sent = 0;
+    for (const submission of queue) {
+      try {
+        await inner.submit(submission);
+        sent++;
+      } catch (error) {
+        // Refused leads are dropped; only transient failures wait for the next attempt
+        if (isRetryable(error)) remaining.push(submission);
+      }
+    }
+    // Leads queued while the flush was running were appended after the ones read above
+    writeQueue([...remaining, ...readQueue().slice(queue.length)]);
+    return sent;
+  };
+
+  return {
+    submit: async (submission) => {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        return enqueue(submission, new LeadSubmitError('leads.error.network', undefined, true));
+      }
+      try {
+        return await inner.submit(submission);
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+        return enqueue(submission, error);
+      }
+    },
+    flush: () => {
+      flushing ??= flushQueue().finally(() => {
+        flushing = null;
+      });
+      return flushing;
+    },
+    pending: () => readQueue().length
+  };
+}
+
+// A build without a webhook cannot deliver leads, not even later: they are refused right away, offline or not,
+// instead of queued and then silently dropped by the next flush
+const unconfiguredAdapter: QueuedLeadAdapter = {
+  submit: async () => {
+    throw new LeadSubmitError('leads.error.notConfigured');
+  },
+  flush: async () => 0,
+  pending: () => 0
+};
+
+// Without a webhook configured, only development builds fall back to the mock so the flow can be exercised locally
+export function createLeadAdapter(webhookUrl: string | undefined, allowMock: boolean): QueuedLeadAdapter {
+  if (webhookUrl) return createQueuedAdapter(createWebhookAdapter(webhookUrl));
+  return allowMock ? createQueuedAdapter(createMockAdapter()) : unconfiguredAdapter;
+}
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONVERSION_CURVE } from './conversionCurve';
+import {
+  analyzeLeadHistory,
+  ColumnMapping,
+  LeadRecord,
+  metricsFromLeadHistory,
+  parseLeadRows,
+  parseTimestamp,
+} from './leadHistory';
+import { METRIC_RULES } from './validation';
+
+describe('parseTimestamp', () => {
+  it('reads day-first dates with an optional time', () => {
+    assert.deepEqual(parseTimestamp('31/01/2025 14:05'), new Date(2025, 0, 31, 14, 5));
+    assert.deepEqual(parseTimestamp('05-02-2025'), new Date(2025, 1, 5));
+    assert.deepEqual(parseTimestamp('1.2.2025 08:00:30'), new Date(2025, 1, 1, 8, 0, 30));
+  });
+
+  it('reads ISO dates as local time unless they carry an offset', () => {
+    assert.deepEqual(parseTimestamp('2025-01-31 14:05'), new Date(2025, 0, 31, 14, 5));
+    assert.equal(parseTimestamp('2025-01-31T14:05:00Z')?.toISOString(), '2025-01-31T14:05:00.000Z');
+  });
+
+  it('reads Excel serial dates', () => {
+    assert.deepEqual(parseTimestamp('45688'), new Date(2025, 0, 31));
+    assert.deepEqual(parseTimestamp('45688,5'), new Date(2025, 0, 31, 12));
+  });
+
+  it('rejects impossible dates and plain numbers', () => {
+    assert.equal(parseTimestamp('31/02/2025'), null);
+    assert.equal(parseTimestamp('2025-13-01'), null);
+    assert.equal(parseTimestamp('42'), null);
+    assert.equal(parseTimestamp('ontem'), null);
+    assert.equal(parseTimestamp(''), null);
+  });
+});
+
+describe('parseLeadRows', () => {
+  const mapping: ColumnMapping = { firstMessageAt: 0, firstReplyAt: 1, converted: 2, ticketValue: 3 };
+  const header = ['Recebida', 'Resposta', 'Convertido', 'Valor'];
+
+  it('parses valid rows', () => {
+    const { records, errors } = parseLeadRows([
+      header,
+      ['31/01/2025 14:00', '31/01/2025 14:03', 'sim', '1.200,00'],
+      ['31/01/2025 15:00', '', 'não', '']
+    ], mapping);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(records, [
+      { firstMessageAt: new Date(2025, 0, 31, 14), firstReplyAt: new Date(2025, 0, 31, 14, 3), converted: true, ticketValue: 1200 },
+      { firstMessageAt: new Date(2025, 0, 31, 15), firstReplyAt: null, converted: false, ticketValue: null }
+    ]);
+  });
+
+  it('reports each bad row with its spreadsheet row number', () => {
+    const { records, errors } = parseLeadRows([
+      header,
+      ['ontem', '', 'sim', ''],
+      ['31/01/2025 14:00', '31/01/2025 13:00', 'sim', ''],
+      ['31/01/2025 14:00', '', 'talvez', ''],
+      ['31/01/2025 14:00', '', 'sim', '-5']
+    ], mapping);
+    assert.equal(records.length, 0);
+    assert.deepEqual(errors.map((error) => [error.row, error.messageKey]), [
+      [2, 'import.error.invalidDate'],
+      [3, 'import.error.replyBeforeMessage'],
+      [4, 'import.error.invalidConverted'],
+      [5, 'import.error.invalidTicket']
+    ]);
+  });
+});
+
+describe('metricsFromLeadHistory', () => {
+  const businessHours = { startHour: 8, endHour: 18 };
+
+  it('derives the inputs from the history', () => {
+    const records: LeadRecord[] = [
+      { firstMessageAt: new Date(2025, 0, 1, 9), firstReplyAt: new Date(2025, 0, 1, 9, 10), converted: true, ticketValue: 1000 },
+      { firstMessageAt: new Date(2025, 0, 2, 9), firstReplyAt: new Date(2025, 0, 2, 9, 20), converted: true, ticketValue: 1500 },
+      { firstMessageAt: new Date(2025, 0, 2, 20), firstReplyAt: null, converted: false, ticketValue: null }
+    ];
+    const analysis = analyzeLeadHistory(records, DEFAULT_CONVERSION_CURVE, businessHours);
+    assert.ok(analysis);
+    assert.equal(analysis.days, 2);
+    assert.deepEqual(metricsFromLeadHistory(analysis), { contactsPerDay: 1.5, responseTime: 15, ticketValue: 1250 });
+  });
+
+  it('handles histories too long to spread into Math.min', () => {
+    const start = new Date(2025, 0, 1, 9).getTime();
+    const records: LeadRecord[] = Array.from({ length: 200000 }, (_, index) => ({
+      firstMessageAt: new Date(start + index * 60000),
+      firstReplyAt: null,
+      converted: false,
+      ticketValue: null
+    }));
+    const analysis = analyzeLeadHistory(records, DEFAULT_CONVERSION_CURVE, businessHours);
+    // 200000 minutes from 09:00 on day 1 end at 06:20 on day 140
+    assert.equal(analysis?.days, 140);
+  });
+
+  it('keeps the derived inputs within the field rules', () => {
+    const records: LeadRecord[] = [
+      { firstMessageAt: new Date(2025, 0, 1, 9), firstReplyAt: new Date(2025, 0, 20, 9), converted: true, ticketValue: 5e9 }
+    ];
+    const analysis = analyzeLeadHistory(records, DEFAULT_CONVERSION_CURVE, businessHours);
+    assert.ok(analysis);
+    const metrics = metricsFromLeadHistory(analysis);
+    assert.equal(metrics.responseTime, METRIC_RULES.responseTime.max);
+    assert.equal(metrics.ticketValue, METRIC_RULES.ticketValue.max);
+  });
+});
@@ -0,0 +1,254 @@
+import { MetricsType } from './calculator';
+import { ConversionCurve, getConversionRate, sortBreakpoints } from './conversionCurve';
+import { parseDecimal } from './format';
+import { MessageKey, MessageParams } from './i18n';
+import { dataRows, SheetRows } from './spreadsheet';
+import { clampToRule, METRIC_RULES } from './validation';
+
+export type LeadColumn = 'firstMessageAt' | 'firstReplyAt' | 'converted' | 'ticketValue';
+
+export type ColumnMapping = Record<LeadColumn, number | null>;
+
+export interface LeadRecord {
+  firstMessageAt: Date;
+  firstReplyAt: Date | null;
+  converted: boolean;
+  ticketValue: number | null;
+}
+
+export interface LeadRowError {
+  row: number;
+  messageKey: MessageKey;
+  params?: MessageParams;
+}
+
+export interface ParsedLeadHistory {
+  records: LeadRecord[];
+  errors: LeadRowError[];
+}
+
+export interface ResponseTimeBucket {
+  fromMinutes: number;
+  toMinutes: number | null;
+  leads: number;
+  conversions: number;
+  conversionRate: number;
+  curveConversionRate: number;
+}
+
+export interface BusinessHours {
+  startHour: number;
+  endHour: number;
+}
+
+export interface LeadHistoryAnalysis {
+  leads: number;
+  days: number;
+  contactsPerDay: number;
+  unansweredShare: number;
+  averageResponseTime: number;
+  medianResponseTime: number;
+  p90ResponseTime: number;
+  conversionRate: number;
+  afterHoursShare: number;
+  averageTicket: number | null;
+  buckets: ResponseTimeBucket[];
+}
+
+export const LEAD_COLUMNS: LeadColumn[] = ['firstMessageAt', 'firstReplyAt', 'converted', 'ticketValue'];
+
+// Columns the analysis cannot do without; the ticket only feeds the average ticket
+export const REQUIRED_LEAD_COLUMNS: LeadColumn[] = ['firstMessageAt', 'firstReplyAt', 'converted'];
+
+const HEADER_HINTS: Record<LeadColumn, RegExp> = {
+  firstMessageAt: /primeira mensagem|primer mensaje|first message|recebid|received|entrada|cria[çc][aã]o|created|in[ií]cio|start/i,
+  firstReplyAt: /resposta|respuesta|reply|response|respondid|answered/i,
+  converted: /convert|convers|agend|venda|venta|fechad|won|sale|booked/i,
+  ticketValue: /ticket|valor|value|amount|pre[çc]o|precio|receita|revenue/i
+};
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const column of LEAD_COLUMNS) {
+    const index = headers.findIndex((header, i) => !taken.has(i) && HEADER_HINTS[column].test(header));
+    mapping[column] = index >= 0 ? index : null;
+    if (index >= 0) taken.add(index);
+  }
+  return mapping;
+}
+
+const TRUE_VALUES = ['sim', 's', 'yes', 'y', 'si', 'sí', 'true', 'verdadeiro', 'verdadero', '1', 'x', 'convertido', 'converted'];
+const FALSE_VALUES = ['não', 'nao', 'n', 'no', 'false', 'falso', '0', '', '-'];
+
+// Excel stores dates as days since 1899-12-30; the wall-clock time is kept as local time
+function fromExcelSerial(serial: number): Date {
+  const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds()
+  );
+}
+
+export function parseTimestamp(text: string): Date | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  if (/^\d+([.,]\d+)?$/.test(value)) {
+    const serial = Number(value.replace(',', '.'));
+    return serial > 20000 && serial < 80000 ? fromExcelSerial(serial) : null;
+  }
+
+  // Day-first, as in pt/es exports: 31/01/2025 14:05[:30]
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dayFirst) {
+    const [, day, month, year, hour = '0', minute = '0', second = '0'] = dayFirst;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    return date.getMonth() === Number(month) - 1 ? date : null;
+  }
+
+  const isoLocal = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (isoLocal) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = isoLocal;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    return date.getMonth() === Number(month) - 1 ? date : null;
+  }
+
+  // Full ISO timestamps with a zone offset
+  const date = /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+export function parseLeadRows(rows: SheetRows, mapping: ColumnMapping): ParsedLeadHistory {
+  const records: LeadRecord[] = [];
+  const errors: LeadRowError[] = [];
+  const cell = (row: string[], column: LeadColumn) => {
+    const index = mapping[column];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  dataRows(rows).forEach(({ row, rowNumber }) => {
+    const firstMessageText = cell(row, 'firstMessageAt');
+    const firstMessageAt = parseTimestamp(firstMessageText);
+    if (!firstMessageAt) {
+      errors.push({ row: rowNumber, messageKey: 'import.error.invalidDate', params: { value: firstMessageText } });
+      return;
+    }
+
+    const replyText = cell(row, 'firstReplyAt');
+    const firstReplyAt = replyText ? parseTimestamp(replyText) : null;
+    if (replyText && !firstReplyAt) {
+      errors.push({ row: rowNumber, messageKey: 'import.error.invalidDate', params: { value: replyText } });
+      return;
+    }
+    if (firstReplyAt && firstReplyAt < firstMessageAt) {
+      errors.push({ row: rowNumber, messageKey: 'import.error.replyBeforeMessage' });
+      return;
+    }
+
+    const convertedText = cell(row, 'converted').toLowerCase();
+    const converted = TRUE_VALUES.includes(convertedText);
+    if (!converted && !FALSE_VALUES.includes(convertedText)) {
+      errors.push({ row: rowNumber, messageKey: 'import.error.invalidConverted', params: { value: cell(row, 'converted') } });
+      return;
+    }
+
+    const ticketText = cell(row, 'ticketValue');
+    const ticketValue = ticketText ? parseDecimal(ticketText) : null;
+    if (ticketValue !== null && (!Number.isFinite(ticketValue) || ticketValue < 0)) {
+      errors.push({ row: rowNumber, messageKey: 'import.error.invalidTicket', params: { value: ticketText } });
+      return;
+    }
+
+    records.push({ firstMessageAt, firstReplyAt, converted, ticketValue });
+  });
+
+  return { records, errors };
+}
+
+const responseMinutes = (record: LeadRecord) =>
+  record.firstReplyAt ? (record.firstReplyAt.getTime() - record.firstMessageAt.getTime()) / 60000 : null;
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+// Buckets follow the breakpoints of the conversion curve, so each observed rate sits next to the one assumed
+export function analyzeLeadHistory(
+  records: LeadRecord[],
+  curve: ConversionCurve,
+  businessHours: BusinessHours
+): LeadHistoryAnalysis | null {
+  if (records.length === 0) return null;
+
+  // A loop rather than Math.min(...times): spreading a history of 100k+ rows overflows the call stack
+  let first = Infinity;
+  let last = -Infinity;
+  for (const record of records) {
+    const time = record.firstMessageAt.getTime();
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+  }
+  const startDay = new Date(first).setHours(0, 0, 0, 0);
+  const endDay = new Date(last).setHours(0, 0, 0, 0);
+  const days = Math.round((endDay - startDay) / 86400000) + 1;
+
+  const answered = records.filter((record) => record.firstReplyAt !== null);
+  const delays = answered.map((record) => responseMinutes(record) as number).sort((a, b) => a - b);
+  const conversions = records.filter((record) => record.converted).length;
+
+  const afterHours = records.filter((record) => {
+    const hour = record.firstMessageAt.getHours();
+    return hour < businessHours.startHour || hour >= businessHours.endHour;
+  }).length;
+
+  const tickets = records
+    .filter((record) => record.converted && record.ticketValue !== null && record.ticketValue > 0)
+    .map((record) => record.ticketValue as number);
+
+  const edges = sortBreakpoints(curve.breakpoints).map((point) => point.maxMinutes);
+  const buckets: ResponseTimeBucket[] = [...edges, null].map((toMinutes, index) => {
+    const fromMinutes = index === 0 ? 0 : edges[index - 1];
+    const inBucket = answered.filter((record) => {
+      const minutes = responseMinutes(record) as number;
+      return (index === 0 || minutes > fromMinutes) && (toMinutes === null || minutes <= toMinutes);
+    });
+    const bucketConversions = inBucket.filter((record) => record.converted).length;
+    const meanMinutes = inBucket.reduce((sum, record) => sum + (responseMinutes(record) as number), 0) / (inBucket.length || 1);
+    return {
+      fromMinutes,
+      toMinutes,
+      leads: inBucket.length,
+      conversions: bucketConversions,
+      conversionRate: inBucket.length > 0 ? (bucketConversions / inBucket.length) * 100 : 0,
+      curveConversionRate: getConversionRate(curve, inBucket.length > 0 ? meanMinutes : toMinutes ?? fromMinutes)
+    };
+  });
+
+  return {
+    leads: records.length,
+    days,
+    contactsPerDay: records.length / days,
+    unansweredShare: (records.length - answered.length) / records.length,
+    averageResponseTime: delays.length > 0 ? delays.reduce((sum, value) => sum + value, 0) / delays.length : 0,
+    medianResponseTime: percentile(delays, 0.5),
+    p90ResponseTime: percentile(delays, 0.9),
+    conversionRate: (conversions / records.length) * 100,
+    afterHoursShare: afterHours / records.length,
+    averageTicket: tickets.length > 0 ? tickets.reduce((sum, value) => sum + value, 0) / tickets.length : null,
+    buckets
+  };
+}
+
+// Only the inputs the history actually measures are replaced; costs stay as typed. Values are kept inside the field
+// rules, so a history with replies slower than a week does not produce an input the form and links would reject.
+export function metricsFromLeadHistory(analysis: LeadHistoryAnalysis): Partial<MetricsType> {
+  return {
+    contactsPerDay: clampToRule(Math.round(analysis.contactsPerDay * 10) / 10, METRIC_RULES.contactsPerDay),
+    responseTime: clampToRule(Math.round(analysis.averageResponseTime * 10) / 10, METRIC_RULES.responseTime),
+    ...(analysis.averageTicket !== null && {
+      ticketValue: clampToRule(Math.round(analysis.averageTicket * 100) / 100, METRIC_RULES.ticketValue)
+    })
+  };
+}
@@ -0,0 +1,416 @@
+import { Messages } from '../i18n';
+
+const en: Messages = {
+  // Modes
+  'mode.human': 'Human Service',
+  'mode.ai': 'AI Service',
+  'mode.hybrid': 'Hybrid',
+
+  // Main page
+  'app.title': 'Investment and Operational Efficiency Calculator',
+  'app.subtitle': 'Size the impact of AI on your healthcare business',
+  'inputs.title': 'Configure Metrics',
+  'inputs.contactsPerDay': 'Contacts per Day',
+  'inputs.responseTime': 'Average Response Time (minutes)',
+  'inputs.responseTimeFromCapacity': 'Calculated from team capacity',
+  'inputs.costFromCostModel': 'Calculated from the detailed cost model',
+  'inputs.ticketValue': 'Average Ticket (R$)',
+  'inputs.humanMonthlyCost': 'Monthly Investment (Human Agent - R$)',
+  'annual.title': 'Annual Impact',
+  'advantages.title': 'Advantages of AI Service',
+  'advantages.immediate': 'Immediate Response',
+  'advantages.immediateText': 'Service within {minutes} min',
+  'advantages.conversion': 'Higher Conversion',
+  'advantages.conversionText': 'Conversion rate up to {rate}%',
+  'advantages.costBenefit': 'Cost-Effective',
+  'advantages.costBenefitText': 'Lower cost per attendance',
+  'investment.title': 'Investment Comparison',
+  'investment.human': 'Investment in Human Service',
+  'investment.ai': 'Investment in AI',
+  'investment.perMonth': '/month',
+  'investment.costPerHour': 'Cost per hour: {value}',
+  'analysis.title': 'Detailed Comparative Analysis',
+  'analysis.human.quality': 'Service quality varies from agent to agent',
+  'analysis.human.errors': 'Prone to human error and miscommunication',
+  'analysis.human.hours': 'Limited by working hours',
+  'analysis.human.cost': 'High operating cost (salaries, benefits, training)',
+  'analysis.human.repetitive': 'Slower answers to repetitive questions',
+  'analysis.human.training': 'Constant need for training',
+  'analysis.ai.consistent': 'Consistent, standardized answers',
+  'analysis.ai.accurate': 'Processes information accurately and reduces errors',
+  'analysis.ai.available': 'Available 24/7, without interruptions',
+  'analysis.ai.savings': 'Lowers costs in the long run after rollout',
+  'analysis.ai.instant': 'Answers frequently asked questions instantly',
+  'analysis.ai.learning': 'Keeps learning from interactions',
+
+  // Conversion curve
+  'curve.title': 'Conversion Curve by Response Time',
+  'curve.segment': 'Segment',
+  'curve.custom': 'Custom',
+  'curve.interpolation': 'Interpolation',
+  'curve.interpolation.step': 'Steps',
+  'curve.interpolation.linear': 'Linear',
+  'curve.upToMinutes': 'Up to (minutes)',
+  'curve.conversionPercent': 'Conversion (%)',
+  'curve.removeBreakpoint': 'Remove band',
+  'curve.addBreakpoint': 'Add band',
+  'curve.note': 'Times beyond the last band keep the last conversion rate.',
+  'curve.chart.curve': 'Conversion curve',
+  'curve.chart.responseTime': 'Response time (minutes)',
+  'curve.preset.default': 'Default',
+  'curve.preset.dental': 'Dental clinic',
+  'curve.preset.aesthetic': 'Aesthetics clinic',
+  'curve.preset.lab': 'Laboratory tests',
+
+  // Advanced assumptions
+  'assumptions.title': 'Advanced assumptions',
+  'assumptions.calendar': 'Calendar',
+  'assumptions.daysPerMonth': 'Contact days per month',
+  'assumptions.workingDaysPerMonth': 'Working days per month (agent)',
+  'assumptions.hoursPerDay': 'Hours per day (agent)',
+  'assumptions.lostLeads': 'Lost leads (%)',
+  'assumptions.costPerHour': 'Cost per service hour (R$)',
+  'assumptions.aiMonthlyCost': 'Monthly Investment (AI - R$)',
+  'assumptions.responseTime': 'Response time (minutes)',
+  'assumptions.conversionRate': 'Conversion rate (%)',
+
+  // Result metrics
+  'metrics.attendances': 'Attendances/month',
+  'metrics.conversionRate': 'Conversion Rate',
+  'metrics.conversions': 'Conversions',
+  'metrics.revenue': 'Revenue',
+  'metrics.monthlyCost': 'Monthly Cost',
+  'metrics.costPerAttendance': 'Cost per Attendance',
+  'metrics.lostRevenue': 'Monthly Loss',
+  'metrics.annualRevenue': 'Annual Revenue',
+  'metrics.annualCost': 'Annual Investment',
+  'metrics.annualProfit': 'Annual Profit',
+
+  // Comparison chart
+  'chart.title': 'Performance Comparison',
+
+  // Share link
+  'share.copy': 'Copy link',
+  'share.copied': 'Link copied!',
+  'share.failed': 'Could not copy',
+
+  // Proposal export
+  'proposal.export': 'Export proposal',
+  'proposal.clientName': 'Client name',
+  'proposal.logo': 'Logo',
+  'proposal.print': 'Print',
+  'proposal.downloadPdf': 'Download PDF',
+  'proposal.logoError': 'Could not read the logo.',
+  'proposal.pdfError': 'Could not generate the PDF.',
+  'proposal.fileName': 'proposal',
+  'proposal.fileNameFallback': 'ai-service',
+  'proposal.title': 'AI Service Proposal',
+  'proposal.issuedAt': 'Issued on {date}',
+  'proposal.indicator': 'Indicator',
+  'proposal.inputs': 'Provided data',
+  'proposal.monthly': 'Monthly comparison',
+  'proposal.annual': 'Annual impact',
+  'proposal.chart': 'Performance comparison',
+  'proposal.chartAlt': 'Performance comparison chart',
+  'proposal.assumptions': 'Assumptions used',
+  'proposal.disclaimer': 'Values estimated from the assumptions above; actual results may vary.',
+  'proposal.contactsPerDay': 'Contacts per day',
+  'proposal.humanResponseTime': 'Average human response time',
+  'proposal.ticketValue': 'Average ticket',
+  'proposal.humanMonthlyCost': 'Monthly investment (human agent)',
+  'proposal.aiMonthlyCost': 'Monthly investment (AI)',
+  'proposal.workday': 'Agent schedule',
+  'proposal.workdayValue': '{days} days × {hours} h',
+  'proposal.lostLeads': 'Lost leads (human / AI)',
+  'proposal.aiResponse': 'AI response and conversion',
+  'proposal.costPerHour': 'Cost per hour (human / AI)',
+  'proposal.humanCurve': 'Human conversion curve',
+  'proposal.curvePoint': 'up to {minutes} min: {rate}',
+
+  // Saved scenarios
+  'scenarios.title': 'Saved Scenarios',
+  'scenarios.namePlaceholder': 'Scenario name (e.g. Clinic X – current)',
+  'scenarios.defaultName': 'Scenario {number}',
+  'scenarios.copyName': '{name} (copy)',
+  'scenarios.saveNew': 'Save new',
+  'scenarios.update': 'Update "{name}"',
+  'scenarios.empty': 'No saved scenarios yet.',
+  'scenarios.compare': 'Include in comparison',
+  'scenarios.updatedAt': 'Updated on {date}',
+  'scenarios.duplicate': 'Duplicate',
+  'scenarios.delete': 'Delete',
+  'scenarios.compareHint': 'Select 2 to {max} scenarios to compare them side by side.',
+  'scenarios.exportJson': 'Export JSON',
+  'scenarios.importJson': 'Import JSON',
+  'scenarios.fileName': 'calculator-scenarios',
+  'scenarios.error.import': 'Could not import the file.',
+  'scenarios.error.invalidJson': 'The file is not valid JSON.',
+  'scenarios.error.missingVersion': 'The file has no format version (schemaVersion).',
+  'scenarios.error.unsupportedVersion': 'Format version {version} is not supported by this calculator.',
+  'scenarios.error.missingScenarios': 'The file does not contain a list of scenarios.',
+  'scenarios.error.save': 'Could not save the scenarios in this browser (private mode or storage full). They are only kept until the page is closed.',
+  'scenarios.unnamed': 'Unnamed scenario',
+  'scenarios.comparison.title': 'Scenario Comparison',
+
+  // Projection
+  'projection.title': 'Projection and Return on Investment',
+  'projection.months': 'Horizon ({min}–{max} months)',
+  'projection.setupFee': 'Setup fee (R$)',
+  'projection.setupFeeFromCosts': 'Set in the detailed cost model',
+  'projection.rampUpMonths': 'AI ramp-up months',
+  'projection.rampUpStartPercent': 'Initial AI conversion (% of full)',
+  'projection.monthlyLeadGrowth': 'Monthly lead growth (%)',
+  'projection.annualPriceAdjustment': 'Annual price adjustment (%)',
+  'projection.annualDiscountRate': 'Annual discount rate (%)',
+  'projection.cumulativeSavings': 'Cumulative savings (AI vs. human)',
+  'projection.month': 'Month {month}',
+  'projection.payback': 'Payback',
+  'projection.paybackNotReached': 'Not reached',
+  'projection.roi': 'ROI over the period',
+  'projection.npv': 'NPV',
+  'projection.table.month': 'Month',
+  'projection.table.contactsPerDay': 'Contacts/day',
+  'projection.table.aiConversion': 'AI conversion',
+  'projection.table.humanProfit': 'Human Profit',
+  'projection.table.aiProfit': 'AI Profit',
+  'projection.table.savings': 'Savings',
+  'projection.table.cumulative': 'Cumulative',
+
+  // Hybrid mode
+  'hybrid.title': 'Hybrid Mode: AI with Human Handoff',
+  'hybrid.handoffRate': 'Handoff to human: {rate}',
+  'hybrid.humanResponseTime': 'Human response time on handoff (minutes)',
+  'hybrid.bestHandoff': 'Best handoff rate',
+  'hybrid.bestHandoffValue': '{rate} — monthly profit of {profit}',
+  'hybrid.profit': 'Profit',
+  'hybrid.chart.handoff': 'Conversations handed off to a human',
+
+  // Staffing capacity
+  'capacity.title': 'Human Team Capacity',
+  'capacity.enable': 'Calculate response time from team capacity',
+  'capacity.attendants': 'Agents',
+  'capacity.handleTime': 'Handle time (min)',
+  'capacity.shiftStart': 'Shift start (h)',
+  'capacity.shiftEnd': 'Shift end (h)',
+  'capacity.target': 'Response target (min)',
+  'capacity.note': 'In this mode, the human agent monthly investment is counted per person, and contacts outside the shift count as lost leads.',
+  'capacity.averageWait': 'Average wait during shift',
+  'capacity.overloaded': 'Queue overloaded at some hour',
+  'capacity.occupancy': 'Team occupancy',
+  'capacity.requiredAttendants': 'Agents to meet target',
+  'capacity.unreachable': 'Target unreachable',
+  'capacity.afterHours': 'After-hours contacts',
+  'capacity.perMonth': '{value}/month',
+  'capacity.ofTotal': '{value} of total',
+  'capacity.distribution': 'Contacts per hour (relative weight)',
+  'capacity.closed': 'closed',
+
+  // Sensitivity
+  'sensitivity.title': 'Sensitivity Analysis',
+  'sensitivity.baseGap': 'Annual profit difference (AI − human) in the current scenario:',
+  'sensitivity.variation': 'Variation of each assumption (±%)',
+  'sensitivity.heatmap.title': 'Where AI stops paying off',
+  'sensitivity.heatmap.xAxis': 'Horizontal axis',
+  'sensitivity.heatmap.yAxis': 'Vertical axis',
+  'sensitivity.heatmap.note': 'Red cells mark combinations where human service yields more annual profit than AI.',
+  'sensitivity.variable.contactsPerDay': 'Contacts per day',
+  'sensitivity.variable.responseTime': 'Human response time',
+  'sensitivity.variable.ticketValue': 'Average ticket',
+  'sensitivity.variable.humanMonthlyCost': 'Human monthly investment',
+  'sensitivity.variable.humanCostPerHour': 'Human cost per hour',
+  'sensitivity.variable.aiCostPerMonth': 'AI monthly investment',
+  'sensitivity.variable.aiCostPerHour': 'AI cost per hour',
+  'sensitivity.variable.daysPerMonth': 'Contact days per month',
+  'sensitivity.variable.humanLostLeadsRate': 'Lost leads (human)',
+  'sensitivity.variable.aiLostLeadsRate': 'Lost leads (AI)',
+  'sensitivity.variable.aiResponseTime': 'AI response time',
+  'sensitivity.variable.aiConversionRate': 'AI conversion',
+
+  // Uncertainty
+  'uncertainty.title': 'Uncertainty',
+  'uncertainty.enable': 'Simulate value ranges (Monte Carlo)',
+  'uncertainty.variable': 'Variable',
+  'uncertainty.distribution': 'Distribution',
+  'uncertainty.min': 'Min. (%)',
+  'uncertainty.max': 'Max. (%)',
+  'uncertainty.note': 'Ranges are relative to the current value of each metric. The result cards then show P10, P50 and P90.',
+  'uncertainty.iterations': 'Simulations ({min}–{max})',
+  'uncertainty.iterationsRun': '{count} simulations',
+  'uncertainty.probability': 'Probability that AI beats human service',
+  'uncertainty.profitGap': 'Annual profit difference',
+  'uncertainty.running': 'Simulating…',
+  'uncertainty.chart.simulations': 'Simulations',
+  'uncertainty.chart.profitGap': 'Annual profit difference (AI − human)',
+  'uncertainty.variable.contactsPerDay': 'Contacts per day',
+  'uncertainty.variable.ticketValue': 'Average ticket',
+  'uncertainty.variable.humanConversionRate': 'Human conversion',
+  'uncertainty.variable.aiConversionRate': 'AI conversion',
+  'uncertainty.variable.humanLostLeadsRate': 'Lost leads (human)',
+  'uncertainty.variable.aiLostLeadsRate': 'Lost leads (AI)',
+  'uncertainty.shape.fixed': 'Fixed',
+  'uncertainty.shape.uniform': 'Uniform',
+  'uncertainty.shape.triangular': 'Triangular',
+  'uncertainty.shape.normal': 'Normal (P10–P90)',
+
+  // Language and currency
+  'locale.language': 'Language',
+  'locale.currency': 'Currency',
+  'locale.exchangeRate': 'Exchange rate',
+  'locale.exchangeRateHint': 'Values are calculated in Brazilian reais and converted at the rate entered.',
+  'locale.saveError': 'Could not store this preference in the browser; it only lasts until the page is closed.',
+  // Lead history import
+  'import.title': 'Import Lead History',
+  'import.description': 'Upload a CSV or XLSX export of the clinic\'s conversations (first message time, first reply time, converted yes/no and ticket value). The file is read only in your browser.',
+  'import.fileSummary': '{name}: {rows} rows',
+  'import.mapping': 'Column mapping',
+  'import.optional': '(optional)',
+  'import.notMapped': '— not used —',
+  'import.unnamedColumn': 'Column {number}',
+  'import.mappingIncomplete': 'Pick the first message, first reply and converted columns to analyze the history.',
+  'import.column.firstMessageAt': 'First message',
+  'import.column.firstReplyAt': 'First reply',
+  'import.column.converted': 'Converted',
+  'import.column.ticketValue': 'Ticket value',
+  'import.rowErrors': '{count} rows skipped due to errors; {valid} valid rows.',
+  'import.rowError': 'Row {row}: {message}',
+  'import.moreErrors': '… and {count} more rows with errors.',
+  'import.businessStart': 'Business hours start (h)',
+  'import.businessEnd': 'Business hours end (h)',
+  'import.leadsOverDays': '{leads} leads over {days} days',
+  'import.averageResponse': 'Average response time',
+  'import.responsePercentiles': 'Median {median} min · P90 {p90} min',
+  'import.unanswered': 'Unanswered',
+  'import.afterHours': 'After hours',
+  'import.table.responseTime': 'Response time',
+  'import.table.leads': 'Leads',
+  'import.table.observed': 'Actual conversion',
+  'import.table.curve': 'Curve conversion',
+  'import.bucketRange': '{from}–{to} min',
+  'import.bucketOver': 'over {from} min',
+  'import.apply': 'Apply to metrics',
+  'import.applyHint': 'Replaces contacts per day, average response time and average ticket; costs are unchanged.',
+  'import.error.read': 'Could not read the file.',
+  'import.error.unsupportedFormat': 'Unsupported .{extension} format. Use CSV or XLSX.',
+  'import.error.invalidXlsx': 'The XLSX workbook is corrupted or in an unrecognized format.',
+  'import.error.empty': 'The file needs a header row and at least one data row.',
+  'import.error.noValidRows': 'No valid rows to analyze.',
+  'import.error.invalidDate': 'invalid date/time "{value}"',
+  'import.error.replyBeforeMessage': 'the reply is earlier than the first message',
+  'import.error.invalidConverted': 'unrecognized converted value "{value}" (use yes/no)',
+  'import.error.invalidTicket': 'invalid ticket value "{value}"',
+  // Field validation
+  'validation.required': 'This field is required',
+  'validation.notANumber': 'Enter a valid number, such as 1,200.50',
+  'validation.integer': 'Use a whole number',
+  'validation.negative': 'The value cannot be negative',
+  'validation.min': 'The minimum value is {min}',
+  'validation.max': 'The maximum value is {max}',
+  'results.insufficientData': 'Not enough data',
+  'results.insufficientDataHint': 'Enter contacts per day and days per month above zero, with lost leads below 100%.',
+  // Batch calculation (CLI)
+  'batch.error.invalidNumber': 'invalid value in {column}: "{value}"',
+  'batch.error.notAScenario': 'The JSON holds neither a scenario (metrics/assumptions) nor an exported scenario file.',
+  'batch.rowName': 'Row {row}',
+  // Embeddable widget
+  'embed.gain': 'With AI, annual profit grows by {value}',
+  'embed.loss': 'With AI, annual profit drops by {value}',
+  // Lead capture
+  'leads.title': 'Get this analysis',
+  'leads.description': 'We send you the full study with your scenario\'s figures, and a specialist gets in touch to answer questions.',
+  'leads.name': 'Name',
+  'leads.clinic': 'Clinic',
+  'leads.phone': 'Phone / WhatsApp',
+  'leads.email': 'Email',
+  'leads.consentText': 'I authorize the use of this data to receive this analysis and be contacted about it, under the applicable data protection law.',
+  'leads.privacyNote': 'The data is used only for this contact and is not shared with third parties. You can request access, correction or deletion at any time.',
+  'leads.submit': 'Send me the analysis',
+  'leads.sending': 'Sending…',
+  'leads.sent': 'Analysis sent!',
+  'leads.sentText': 'You will receive the study at {email} shortly.',
+  'leads.queued': 'Request saved',
+  'leads.queuedText': 'No connection right now: the analysis will be sent to {email} automatically once you are back online.',
+  'leads.error.phone': 'Enter the phone number with area code',
+  'leads.error.email': 'Invalid email',
+  'leads.error.consent': 'You must accept the data use to send',
+  'leads.error.network': 'Could not reach the server.',
+  'leads.error.server': 'The server refused the submission (error {status}). Please try again later.',
+  'leads.error.generic': 'Could not send. Please try again.',
+  'leads.error.notConfigured': 'Sending the analysis is not available yet. Please try again later.',
+  // Detailed cost model
+  'investment.showDetails': 'Show breakdown',
+  'investment.hideDetails': 'Hide breakdown',
+  'costs.title': 'Detailed Costs',
+  'costs.enable': 'Calculate the investments from the detailed costs',
+  'costs.human.title': 'Human attendant (per attendant)',
+  'costs.human.baseSalary': 'Base salary',
+  'costs.human.benefitsPerMonth': 'Benefits per month (transport, meals, health plan)',
+  'costs.human.inssRate': 'Employer INSS (%)',
+  'costs.human.fgtsRate': 'FGTS (%)',
+  'costs.human.trainingPerYear': 'Training per year',
+  'costs.human.annualTurnoverRate': 'Annual turnover (%)',
+  'costs.human.replacementCost': 'Cost of each replacement',
+  'costs.human.note': '13th salary and vacation (with the 1/3 bonus) are accrued monthly; INSS and FGTS apply to salary, 13th and vacation.',
+  'costs.human.total': 'Monthly cost per attendant',
+  'costs.human.salary': 'Base salary',
+  'costs.human.thirteenth': '13th salary',
+  'costs.human.vacation': 'Vacation + 1/3',
+  'costs.human.inss': 'INSS ({rate}%)',
+  'costs.human.fgts': 'FGTS ({rate}%)',
+  'costs.human.benefits': 'Benefits',
+  'costs.human.training': 'Training',
+  'costs.human.turnover': 'Turnover replacement',
+  'costs.ai.title': 'AI attendant',
+  'costs.ai.billingUnit': 'Billing',
+  'costs.ai.perConversation': 'Per conversation',
+  'costs.ai.perMessage': 'Per message',
+  'costs.ai.messagesPerConversation': 'Messages per conversation',
+  'costs.ai.setupFee': 'Setup fee',
+  'costs.ai.setupFeeHint': 'Paid once: counted in the projection, not in the monthly cost',
+  'costs.ai.tier': 'Plan',
+  'costs.ai.monthlyFee': 'Monthly fee',
+  'costs.ai.includedUnits': 'Included {unit}',
+  'costs.ai.overageRate': 'Overage per {unit}',
+  'costs.ai.unit.conversation': 'conversations',
+  'costs.ai.unit.message': 'messages',
+  'costs.ai.newTier': 'Plan {number}',
+  'costs.ai.addTier': 'Add plan',
+  'costs.ai.removeTier': 'Remove plan',
+  'costs.ai.total': 'Estimated monthly AI cost',
+  'costs.ai.volume': '{count} {unit} per month on the {tier} plan',
+  'costs.ai.plan': '{name} plan',
+  'costs.ai.overageConversations': 'Overage ({count} conversations)',
+  'costs.ai.overageMessages': 'Overage ({count} messages)',
+  // Chart panel
+  'charts.title': 'Charts',
+  'charts.tab.funnel': 'Lead funnel',
+  'charts.tab.revenueCost': 'Revenue vs. cost',
+  'charts.tab.waterfall': 'Lost revenue',
+  'charts.exportImage': 'Download image',
+  'charts.exportCsv': 'Download CSV',
+  'charts.fileName': 'chart',
+  'charts.funnel.description': 'Monthly contacts through to revenue in each mode. Counts on the left axis, revenue on the right axis.',
+  'charts.funnel.contacts': 'Contacts',
+  'charts.funnel.responded': 'Responded',
+  'charts.funnel.conversions': 'Converted',
+  'charts.funnel.revenue': 'Revenue',
+  'charts.funnel.countAxis': 'Leads per month',
+  'charts.funnel.revenueAxis': 'Monthly revenue',
+  'charts.revenueCost.description': 'Monthly revenue, cost and profit of each mode.',
+  'charts.revenueCost.revenue': 'Revenue',
+  'charts.revenueCost.cost': 'Cost',
+  'charts.revenueCost.profit': 'Profit',
+  'charts.waterfall.description': 'Where the revenue gap between human service and AI comes from: leads left unanswered and the lower conversion of those who are answered.',
+  'charts.waterfall.label': 'Monthly revenue',
+  'charts.waterfall.humanRevenue': 'Human revenue',
+  'charts.waterfall.lostLeads': 'Lost leads',
+  'charts.waterfall.lowerConversion': 'Lower conversion',
+  'charts.waterfall.aiRevenue': 'AI revenue',
+  'charts.tab.whatIf': 'What if',
+  'charts.whatIf.description': 'Monthly revenue, cost and profit of each mode in the current scenario and in a saved one. Switch between them to watch the bars move.',
+  'charts.whatIf.compareWith': 'Compare with',
+  'charts.whatIf.current': 'Current scenario',
+  'charts.whatIf.noSaved': 'Save a scenario to compare it with the current one.',
+  'charts.whatIf.profitChange': 'Profit change – {mode}'
+};
+
+export default en;
@@ -0,0 +1,416 @@
+import { Messages } from '../i18n';
+
+const es: Messages = {
+  // Modes
+  'mode.human': 'Atención Humana',
+  'mode.ai': 'Atención IA',
+  'mode.hybrid': 'Híbrido',
+
+  // Main page
+  'app.title': 'Calculadora de Inversión y Eficiencia Operativa',
+  'app.subtitle': 'Dimensione el impacto de la IA en su negocio de salud',
+  'inputs.title': 'Configurar Métricas',
+  'inputs.contactsPerDay': 'Contactos por Día',
+  'inputs.responseTime': 'Tiempo Medio de Respuesta (minutos)',
+  'inputs.responseTimeFromCapacity': 'Calculado según la capacidad del equipo',
+  'inputs.costFromCostModel': 'Calculado con el modelo de costos detallado',
+  'inputs.ticketValue': 'Ticket Medio (R$)',
+  'inputs.humanMonthlyCost': 'Inversión Mensual (Agente Humano - R$)',
+  'annual.title': 'Impacto Anual',
+  'advantages.title': 'Ventajas de la Atención con IA',
+  'advantages.immediate': 'Respuesta Inmediata',
+  'advantages.immediateText': 'Atención en hasta {minutes} min',
+  'advantages.conversion': 'Mayor Conversión',
+  'advantages.conversionText': 'Tasa de conversión de hasta {rate}%',
+  'advantages.costBenefit': 'Costo-Beneficio',
+  'advantages.costBenefitText': 'Menor costo por atención',
+  'investment.title': 'Comparativo de Inversión',
+  'investment.human': 'Inversión en Atención Humana',
+  'investment.ai': 'Inversión en IA',
+  'investment.perMonth': '/mes',
+  'investment.costPerHour': 'Costo por hora: {value}',
+  'analysis.title': 'Análisis Comparativo Detallado',
+  'analysis.human.quality': 'La calidad de la atención varía según el agente',
+  'analysis.human.errors': 'Sujeto a errores humanos y fallas de comunicación',
+  'analysis.human.hours': 'Limitado por el horario laboral',
+  'analysis.human.cost': 'Alto costo operativo (salarios, beneficios, capacitaciones)',
+  'analysis.human.repetitive': 'Respuesta más lenta en casos repetitivos',
+  'analysis.human.training': 'Necesidad constante de capacitación',
+  'analysis.ai.consistent': 'Respuestas consistentes y estandarizadas',
+  'analysis.ai.accurate': 'Procesa información con precisión y reduce errores',
+  'analysis.ai.available': 'Disponible 24/7, sin interrupciones',
+  'analysis.ai.savings': 'Reduce costos a largo plazo tras la implementación',
+  'analysis.ai.instant': 'Responde al instante las preguntas frecuentes',
+  'analysis.ai.learning': 'Aprende continuamente de las interacciones',
+
+  // Conversion curve
+  'curve.title': 'Curva de Conversión por Tiempo de Respuesta',
+  'curve.segment': 'Segmento',
+  'curve.custom': 'Personalizada',
+  'curve.interpolation': 'Interpolación',
+  'curve.interpolation.step': 'Escalones',
+  'curve.interpolation.linear': 'Lineal',
+  'curve.upToMinutes': 'Hasta (minutos)',
+  'curve.conversionPercent': 'Conversión (%)',
+  'curve.removeBreakpoint': 'Eliminar tramo',
+  'curve.addBreakpoint': 'Agregar tramo',
+  'curve.note': 'Los tiempos posteriores al último tramo conservan la última tasa de conversión.',
+  'curve.chart.curve': 'Curva de conversión',
+  'curve.chart.responseTime': 'Tiempo de respuesta (minutos)',
+  'curve.preset.default': 'Estándar',
+  'curve.preset.dental': 'Clínica odontológica',
+  'curve.preset.aesthetic': 'Clínica de estética',
+  'curve.preset.lab': 'Análisis de laboratorio',
+
+  // Advanced assumptions
+  'assumptions.title': 'Supuestos avanzados',
+  'assumptions.calendar': 'Calendario',
+  'assumptions.daysPerMonth': 'Días de contacto por mes',
+  'assumptions.workingDaysPerMonth': 'Días hábiles por mes (agente)',
+  'assumptions.hoursPerDay': 'Horas por día (agente)',
+  'assumptions.lostLeads': 'Leads perdidos (%)',
+  'assumptions.costPerHour': 'Costo por hora de atención (R$)',
+  'assumptions.aiMonthlyCost': 'Inversión Mensual (IA - R$)',
+  'assumptions.responseTime': 'Tiempo de respuesta (minutos)',
+  'assumptions.conversionRate': 'Tasa de conversión (%)',
+
+  // Result metrics
+  'metrics.attendances': 'Atenciones/mes',
+  'metrics.conversionRate': 'Tasa de Conversión',
+  'metrics.conversions': 'Conversiones',
+  'metrics.revenue': 'Facturación',
+  'metrics.monthlyCost': 'Costo Mensual',
+  'metrics.costPerAttendance': 'Costo por Atención',
+  'metrics.lostRevenue': 'Pérdida Mensual',
+  'metrics.annualRevenue': 'Ingresos Anuales',
+  'metrics.annualCost': 'Inversión Anual',
+  'metrics.annualProfit': 'Utilidad Anual',
+
+  // Comparison chart
+  'chart.title': 'Comparativo de Desempeño',
+
+  // Share link
+  'share.copy': 'Copiar enlace',
+  'share.copied': '¡Enlace copiado!',
+  'share.failed': 'No se pudo copiar',
+
+  // Proposal export
+  'proposal.export': 'Exportar propuesta',
+  'proposal.clientName': 'Nombre del cliente',
+  'proposal.logo': 'Logotipo',
+  'proposal.print': 'Imprimir',
+  'proposal.downloadPdf': 'Descargar PDF',
+  'proposal.logoError': 'No se pudo leer el logotipo.',
+  'proposal.pdfError': 'No se pudo generar el PDF.',
+  'proposal.fileName': 'propuesta',
+  'proposal.fileNameFallback': 'atencion-ia',
+  'proposal.title': 'Propuesta de Atención con IA',
+  'proposal.issuedAt': 'Emitida el {date}',
+  'proposal.indicator': 'Indicador',
+  'proposal.inputs': 'Datos informados',
+  'proposal.monthly': 'Comparativo mensual',
+  'proposal.annual': 'Impacto anual',
+  'proposal.chart': 'Comparativo de desempeño',
+  'proposal.chartAlt': 'Gráfico comparativo de desempeño',
+  'proposal.assumptions': 'Supuestos utilizados',
+  'proposal.disclaimer': 'Valores estimados a partir de los supuestos anteriores; los resultados reales pueden variar.',
+  'proposal.contactsPerDay': 'Contactos por día',
+  'proposal.humanResponseTime': 'Tiempo medio de respuesta humano',
+  'proposal.ticketValue': 'Ticket medio',
+  'proposal.humanMonthlyCost': 'Inversión mensual (agente humano)',
+  'proposal.aiMonthlyCost': 'Inversión mensual (IA)',
+  'proposal.workday': 'Jornada del agente',
+  'proposal.workdayValue': '{days} días × {hours} h',
+  'proposal.lostLeads': 'Leads perdidos (humano / IA)',
+  'proposal.aiResponse': 'Respuesta y conversión de la IA',
+  'proposal.costPerHour': 'Costo por hora (humano / IA)',
+  'proposal.humanCurve': 'Curva de conversión humana',
+  'proposal.curvePoint': 'hasta {minutes} min: {rate}',
+
+  // Saved scenarios
+  'scenarios.title': 'Escenarios Guardados',
+  'scenarios.namePlaceholder': 'Nombre del escenario (ej.: Clínica X – actual)',
+  'scenarios.defaultName': 'Escenario {number}',
+  'scenarios.copyName': '{name} (copia)',
+  'scenarios.saveNew': 'Guardar nuevo',
+  'scenarios.update': 'Actualizar "{name}"',
+  'scenarios.empty': 'Aún no hay escenarios guardados.',
+  'scenarios.compare': 'Incluir en la comparación',
+  'scenarios.updatedAt': 'Actualizado el {date}',
+  'scenarios.duplicate': 'Duplicar',
+  'scenarios.delete': 'Eliminar',
+  'scenarios.compareHint': 'Marque de 2 a {max} escenarios para compararlos lado a lado.',
+  'scenarios.exportJson': 'Exportar JSON',
+  'scenarios.importJson': 'Importar JSON',
+  'scenarios.fileName': 'escenarios-calculadora',
+  'scenarios.error.import': 'No se pudo importar el archivo.',
+  'scenarios.error.invalidJson': 'El archivo no es un JSON válido.',
+  'scenarios.error.missingVersion': 'El archivo no tiene la versión del formato (schemaVersion).',
+  'scenarios.error.unsupportedVersion': 'Esta calculadora no admite la versión de formato {version}.',
+  'scenarios.error.missingScenarios': 'El archivo no contiene una lista de escenarios.',
+  'scenarios.error.save': 'No se pudieron guardar los escenarios en este navegador (modo privado o almacenamiento lleno). Solo estarán disponibles hasta cerrar la página.',
+  'scenarios.unnamed': 'Escenario sin nombre',
+  'scenarios.comparison.title': 'Comparación de Escenarios',
+
+  // Projection
+  'projection.title': 'Proyección y Retorno de la Inversión',
+  'projection.months': 'Horizonte ({min}–{max} meses)',
+  'projection.setupFee': 'Tarifa de implementación (R$)',
+  'projection.setupFeeFromCosts': 'Definida en el modelo de costos detallado',
+  'projection.rampUpMonths': 'Meses de ramp-up de la IA',
+  'projection.rampUpStartPercent': 'Conversión inicial de la IA (% de la plena)',
+  'projection.monthlyLeadGrowth': 'Crecimiento mensual de leads (%)',
+  'projection.annualPriceAdjustment': 'Ajuste anual de precios (%)',
+  'projection.annualDiscountRate': 'Tasa de descuento anual (%)',
+  'projection.cumulativeSavings': 'Ahorro acumulado (IA vs. humano)',
+  'projection.month': 'Mes {month}',
+  'projection.payback': 'Payback',
+  'projection.paybackNotReached': 'No alcanzado',
+  'projection.roi': 'ROI en el período',
+  'projection.npv': 'VPN',
+  'projection.table.month': 'Mes',
+  'projection.table.contactsPerDay': 'Contactos/día',
+  'projection.table.aiConversion': 'Conversión IA',
+  'projection.table.humanProfit': 'Utilidad Humana',
+  'projection.table.aiProfit': 'Utilidad IA',
+  'projection.table.savings': 'Ahorro',
+  'projection.table.cumulative': 'Acumulado',
+
+  // Hybrid mode
+  'hybrid.title': 'Modo Híbrido: IA con Transferencia a Humano',
+  'hybrid.handoffRate': 'Transferencia a humano: {rate}',
+  'hybrid.humanResponseTime': 'Tiempo de respuesta humano en la transferencia (minutos)',
+  'hybrid.bestHandoff': 'Mejor tasa de transferencia',
+  'hybrid.bestHandoffValue': '{rate} — utilidad mensual de {profit}',
+  'hybrid.profit': 'Utilidad',
+  'hybrid.chart.handoff': 'Conversaciones transferidas a humano',
+
+  // Staffing capacity
+  'capacity.title': 'Capacidad del Equipo Humano',
+  'capacity.enable': 'Calcular el tiempo de respuesta según la capacidad del equipo',
+  'capacity.attendants': 'Agentes',
+  'capacity.handleTime': 'Tiempo por atención (min)',
+  'capacity.shiftStart': 'Inicio del turno (h)',
+  'capacity.shiftEnd': 'Fin del turno (h)',
+  'capacity.target': 'Meta de respuesta (min)',
+  'capacity.note': 'En este modo, la inversión mensual del agente humano se considera por persona y los contactos fuera del turno cuentan como leads perdidos.',
+  'capacity.averageWait': 'Espera media en el turno',
+  'capacity.overloaded': 'Cola sobrecargada en algún horario',
+  'capacity.occupancy': 'Ocupación del equipo',
+  'capacity.requiredAttendants': 'Agentes para la meta',
+  'capacity.unreachable': 'Meta inalcanzable',
+  'capacity.afterHours': 'Contactos fuera de horario',
+  'capacity.perMonth': '{value}/mes',
+  'capacity.ofTotal': '{value} del total',
+  'capacity.distribution': 'Distribución de contactos por hora (peso relativo)',
+  'capacity.closed': 'cerrado',
+
+  // Sensitivity
+  'sensitivity.title': 'Análisis de Sensibilidad',
+  'sensitivity.baseGap': 'Diferencia de utilidad anual (IA − humano) en el escenario actual:',
+  'sensitivity.variation': 'Variación de cada supuesto (±%)',
+  'sensitivity.heatmap.title': 'Dónde la IA deja de compensar',
+  'sensitivity.heatmap.xAxis': 'Eje horizontal',
+  'sensitivity.heatmap.yAxis': 'Eje vertical',
+  'sensitivity.heatmap.note': 'Las celdas en rojo indican combinaciones en las que la atención humana da más utilidad anual que la IA.',
+  'sensitivity.variable.contactsPerDay': 'Contactos por día',
+  'sensitivity.variable.responseTime': 'Tiempo de respuesta humano',
+  'sensitivity.variable.ticketValue': 'Ticket medio',
+  'sensitivity.variable.humanMonthlyCost': 'Inversión mensual humana',
+  'sensitivity.variable.humanCostPerHour': 'Costo por hora humano',
+  'sensitivity.variable.aiCostPerMonth': 'Inversión mensual IA',
+  'sensitivity.variable.aiCostPerHour': 'Costo por hora IA',
+  'sensitivity.variable.daysPerMonth': 'Días de contacto por mes',
+  'sensitivity.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'sensitivity.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'sensitivity.variable.aiResponseTime': 'Tiempo de respuesta IA',
+  'sensitivity.variable.aiConversionRate': 'Conversión de la IA',
+
+  // Uncertainty
+  'uncertainty.title': 'Incertidumbre',
+  'uncertainty.enable': 'Simular rangos de valores (Monte Carlo)',
+  'uncertainty.variable': 'Variable',
+  'uncertainty.distribution': 'Distribución',
+  'uncertainty.min': 'Mín. (%)',
+  'uncertainty.max': 'Máx. (%)',
+  'uncertainty.note': 'Rangos relativos al valor actual de cada métrica. Las tarjetas de resultado pasan a mostrar P10, P50 y P90.',
+  'uncertainty.iterations': 'Simulaciones ({min}–{max})',
+  'uncertainty.iterationsRun': '{count} simulaciones',
+  'uncertainty.probability': 'Probabilidad de que la IA supere al humano',
+  'uncertainty.profitGap': 'Diferencia de utilidad anual',
+  'uncertainty.running': 'Simulando…',
+  'uncertainty.chart.simulations': 'Simulaciones',
+  'uncertainty.chart.profitGap': 'Diferencia de utilidad anual (IA − humano)',
+  'uncertainty.variable.contactsPerDay': 'Contactos por día',
+  'uncertainty.variable.ticketValue': 'Ticket medio',
+  'uncertainty.variable.humanConversionRate': 'Conversión humana',
+  'uncertainty.variable.aiConversionRate': 'Conversión de la IA',
+  'uncertainty.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'uncertainty.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'uncertainty.shape.fixed': 'Fijo',
+  'uncertainty.shape.uniform': 'Uniforme',
+  'uncertainty.shape.triangular': 'Triangular',
+  'uncertainty.shape.normal': 'Normal (P10–P90)',
+
+  // Language and currency
+  'locale.language': 'Idioma',
+  'locale.currency': 'Moneda',
+  'locale.exchangeRate': 'Tipo de cambio',
+  'locale.exchangeRateHint': 'Los valores se calculan en reales brasileños y se convierten con el tipo de cambio informado.',
+  'locale.saveError': 'No se pudo guardar esta preferencia en el navegador; solo vale hasta cerrar la página.',
+  // Lead history import
+  'import.title': 'Importar Historial de Leads',
+  'import.description': 'Suba un CSV o XLSX exportado de las conversaciones de la clínica (fecha del primer mensaje, fecha de la primera respuesta, convertido sí/no y valor del ticket). El archivo se lee solo en su navegador.',
+  'import.fileSummary': '{name}: {rows} filas',
+  'import.mapping': 'Asignación de columnas',
+  'import.optional': '(opcional)',
+  'import.notMapped': '— no usar —',
+  'import.unnamedColumn': 'Columna {number}',
+  'import.mappingIncomplete': 'Elija las columnas de primer mensaje, primera respuesta y conversión para analizar el historial.',
+  'import.column.firstMessageAt': 'Primer mensaje',
+  'import.column.firstReplyAt': 'Primera respuesta',
+  'import.column.converted': 'Convertido',
+  'import.column.ticketValue': 'Valor del ticket',
+  'import.rowErrors': '{count} filas omitidas por error; {valid} filas válidas.',
+  'import.rowError': 'Fila {row}: {message}',
+  'import.moreErrors': '… y {count} filas más con error.',
+  'import.businessStart': 'Inicio del horario de atención (h)',
+  'import.businessEnd': 'Fin del horario de atención (h)',
+  'import.leadsOverDays': '{leads} leads en {days} días',
+  'import.averageResponse': 'Tiempo medio de respuesta',
+  'import.responsePercentiles': 'Mediana {median} min · P90 {p90} min',
+  'import.unanswered': 'Sin respuesta',
+  'import.afterHours': 'Fuera de horario',
+  'import.table.responseTime': 'Tiempo de respuesta',
+  'import.table.leads': 'Leads',
+  'import.table.observed': 'Conversión real',
+  'import.table.curve': 'Conversión de la curva',
+  'import.bucketRange': '{from}–{to} min',
+  'import.bucketOver': 'más de {from} min',
+  'import.apply': 'Aplicar a las métricas',
+  'import.applyHint': 'Reemplaza contactos por día, tiempo medio de respuesta y ticket medio; los costos no cambian.',
+  'import.error.read': 'No se pudo leer el archivo.',
+  'import.error.unsupportedFormat': 'Formato .{extension} no admitido. Use CSV o XLSX.',
+  'import.error.invalidXlsx': 'La hoja XLSX está dañada o tiene un formato no reconocido.',
+  'import.error.empty': 'El archivo necesita una fila de encabezado y al menos una fila de datos.',
+  'import.error.noValidRows': 'No hay filas válidas para analizar.',
+  'import.error.invalidDate': 'fecha/hora no válida "{value}"',
+  'import.error.replyBeforeMessage': 'la respuesta es anterior al primer mensaje',
+  'import.error.invalidConverted': 'valor de conversión no reconocido "{value}" (use sí/no)',
+  'import.error.invalidTicket': 'valor del ticket no válido "{value}"',
+  // Field validation
+  'validation.required': 'Completa este campo',
+  'validation.notANumber': 'Escribe un número válido, como 1.200,50',
+  'validation.integer': 'Usa un número entero',
+  'validation.negative': 'El valor no puede ser negativo',
+  'validation.min': 'El valor mínimo es {min}',
+  'validation.max': 'El valor máximo es {max}',
+  'results.insufficientData': 'Datos insuficientes',
+  'results.insufficientDataHint': 'Indica contactos por día y días por mes mayores que cero y menos de 100% de leads perdidos.',
+  // Batch calculation (CLI)
+  'batch.error.invalidNumber': 'valor no válido en {column}: "{value}"',
+  'batch.error.notAScenario': 'El JSON no contiene un escenario (metrics/assumptions) ni un archivo de escenarios exportado.',
+  'batch.rowName': 'Fila {row}',
+  // Embeddable widget
+  'embed.gain': 'Con la IA, el beneficio anual aumenta {value}',
+  'embed.loss': 'Con la IA, el beneficio anual disminuye {value}',
+  // Lead capture
+  'leads.title': 'Recibe este análisis',
+  'leads.description': 'Te enviamos el estudio completo con los números de tu escenario y un especialista se pone en contacto para resolver dudas.',
+  'leads.name': 'Nombre',
+  'leads.clinic': 'Clínica',
+  'leads.phone': 'Teléfono / WhatsApp',
+  'leads.email': 'Correo electrónico',
+  'leads.consentText': 'Autorizo el uso de estos datos para recibir este análisis y ser contactado sobre él, conforme a la legislación de protección de datos aplicable.',
+  'leads.privacyNote': 'Los datos se usan solo para este contacto y no se comparten con terceros. Puedes solicitar acceso, corrección o eliminación en cualquier momento.',
+  'leads.submit': 'Quiero recibir el análisis',
+  'leads.sending': 'Enviando…',
+  'leads.sent': '¡Análisis enviado!',
+  'leads.sentText': 'En breve recibirás el estudio en {email}.',
+  'leads.queued': 'Solicitud registrada',
+  'leads.queuedText': 'Sin conexión en este momento: el envío a {email} se hará automáticamente cuando vuelva internet.',
+  'leads.error.phone': 'Indica el teléfono con código de área',
+  'leads.error.email': 'Correo electrónico no válido',
+  'leads.error.consent': 'Debes aceptar el uso de los datos para enviar',
+  'leads.error.network': 'No se pudo conectar con el servidor.',
+  'leads.error.server': 'El servidor rechazó el envío (error {status}). Inténtalo más tarde.',
+  'leads.error.generic': 'No se pudo enviar. Inténtalo de nuevo.',
+  'leads.error.notConfigured': 'El envío de análisis aún no está disponible. Inténtalo de nuevo más tarde.',
+  // Detailed cost model
+  'investment.showDetails': 'Ver desglose',
+  'investment.hideDetails': 'Ocultar desglose',
+  'costs.title': 'Costos Detallados',
+  'costs.enable': 'Calcular las inversiones a partir de los costos detallados',
+  'costs.human.title': 'Agente humano (por agente)',
+  'costs.human.baseSalary': 'Salario base',
+  'costs.human.benefitsPerMonth': 'Beneficios por mes (transporte, comida, salud)',
+  'costs.human.inssRate': 'INSS patronal (%)',
+  'costs.human.fgtsRate': 'FGTS (%)',
+  'costs.human.trainingPerYear': 'Capacitación por año',
+  'costs.human.annualTurnoverRate': 'Rotación anual (%)',
+  'costs.human.replacementCost': 'Costo de cada reemplazo',
+  'costs.human.note': 'El 13º y las vacaciones (con 1/3) se provisionan por mes; INSS y FGTS se aplican sobre salario, 13º y vacaciones.',
+  'costs.human.total': 'Costo mensual por agente',
+  'costs.human.salary': 'Salario base',
+  'costs.human.thirteenth': 'Aguinaldo (13º)',
+  'costs.human.vacation': 'Vacaciones + 1/3',
+  'costs.human.inss': 'INSS ({rate}%)',
+  'costs.human.fgts': 'FGTS ({rate}%)',
+  'costs.human.benefits': 'Beneficios',
+  'costs.human.training': 'Capacitación',
+  'costs.human.turnover': 'Reemplazo por rotación',
+  'costs.ai.title': 'Agente IA',
+  'costs.ai.billingUnit': 'Facturación',
+  'costs.ai.perConversation': 'Por conversación',
+  'costs.ai.perMessage': 'Por mensaje',
+  'costs.ai.messagesPerConversation': 'Mensajes por conversación',
+  'costs.ai.setupFee': 'Tarifa de implementación',
+  'costs.ai.setupFeeHint': 'Se paga una vez: entra en la proyección, no en el costo mensual',
+  'costs.ai.tier': 'Plan',
+  'costs.ai.monthlyFee': 'Cuota mensual',
+  'costs.ai.includedUnits': '{unit} incluidas',
+  'costs.ai.overageRate': 'Excedente por {unit}',
+  'costs.ai.unit.conversation': 'conversaciones',
+  'costs.ai.unit.message': 'mensajes',
+  'costs.ai.newTier': 'Plan {number}',
+  'costs.ai.addTier': 'Agregar plan',
+  'costs.ai.removeTier': 'Eliminar plan',
+  'costs.ai.total': 'Costo mensual estimado de la IA',
+  'costs.ai.volume': '{count} {unit} por mes en el plan {tier}',
+  'costs.ai.plan': 'Plan {name}',
+  'costs.ai.overageConversations': 'Excedente ({count} conversaciones)',
+  'costs.ai.overageMessages': 'Excedente ({count} mensajes)',
+  // Chart panel
+  'charts.title': 'Gráficos',
+  'charts.tab.funnel': 'Embudo de leads',
+  'charts.tab.revenueCost': 'Facturación vs. costo',
+  'charts.tab.waterfall': 'Ingresos perdidos',
+  'charts.exportImage': 'Descargar imagen',
+  'charts.exportCsv': 'Descargar CSV',
+  'charts.fileName': 'grafico',
+  'charts.funnel.description': 'Contactos del mes hasta la facturación en cada modo. Cantidades en el eje izquierdo, facturación en el eje derecho.',
+  'charts.funnel.contacts': 'Contactos',
+  'charts.funnel.responded': 'Atendidos',
+  'charts.funnel.conversions': 'Convertidos',
+  'charts.funnel.revenue': 'Facturación',
+  'charts.funnel.countAxis': 'Leads por mes',
+  'charts.funnel.revenueAxis': 'Facturación mensual',
+  'charts.revenueCost.description': 'Facturación, costo y beneficio mensuales de cada modo.',
+  'charts.revenueCost.revenue': 'Facturación',
+  'charts.revenueCost.cost': 'Costo',
+  'charts.revenueCost.profit': 'Beneficio',
+  'charts.waterfall.description': 'De dónde viene la diferencia de facturación entre la atención humana y la IA: leads que quedan sin respuesta y la menor conversión de los que son atendidos.',
+  'charts.waterfall.label': 'Facturación mensual',
+  'charts.waterfall.humanRevenue': 'Facturación humana',
+  'charts.waterfall.lostLeads': 'Leads perdidos',
+  'charts.waterfall.lowerConversion': 'Menor conversión',
+  'charts.waterfall.aiRevenue': 'Facturación IA',
+  'charts.tab.whatIf': '¿Y si…?',
+  'charts.whatIf.description': 'Facturación, costo y beneficio mensuales de cada modo en el escenario actual y en uno guardado. Alterna entre ambos para ver cómo se mueven las barras.',
+  'charts.whatIf.compareWith': 'Comparar con',
+  'charts.whatIf.current': 'Escenario actual',
+  'charts.whatIf.noSaved': 'Guarda un escenario para compararlo con el actual.',
+  'charts.whatIf.profitChange': 'Variación del beneficio – {mode}'
+};
+
+export default es;
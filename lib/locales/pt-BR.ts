@@ -0,0 +1,415 @@
+// Source catalog: every other locale must provide the same keys
+const ptBR = {
+  // Modes
+  'mode.human': 'Atendimento Humano',
+  'mode.ai': 'Atendimento IA',
+  'mode.hybrid': 'Híbrido',
+
+  // Main page
+  'app.title': 'Calculadora de Investimento e Eficiência Operacional',
+  'app.subtitle': 'Dimensione o impacto da IA no seu negócio de saúde',
+  'inputs.title': 'Configurar Métricas',
+  'inputs.contactsPerDay': 'Contatos por Dia',
+  'inputs.responseTime': 'Tempo Médio de Resposta (minutos)',
+  'inputs.responseTimeFromCapacity': 'Calculado pela capacidade da equipe',
+  'inputs.costFromCostModel': 'Calculado pelo modelo de custos detalhado',
+  'inputs.ticketValue': 'Ticket Médio (R$)',
+  'inputs.humanMonthlyCost': 'Investimento Mensal (Atendente Humano - R$)',
+  'annual.title': 'Impacto Anual',
+  'advantages.title': 'Vantagens do Atendimento com IA',
+  'advantages.immediate': 'Resposta Imediata',
+  'advantages.immediateText': 'Atendimento em até {minutes} min',
+  'advantages.conversion': 'Maior Conversão',
+  'advantages.conversionText': 'Taxa de conversão de até {rate}%',
+  'advantages.costBenefit': 'Custo-Benefício',
+  'advantages.costBenefitText': 'Menor custo por atendimento',
+  'investment.title': 'Comparativo de Investimento',
+  'investment.human': 'Investimento em Atendimento Humano',
+  'investment.ai': 'Investimento em IA',
+  'investment.perMonth': '/mês',
+  'investment.costPerHour': 'Custo por hora: {value}',
+  'analysis.title': 'Análise Comparativa Detalhada',
+  'analysis.human.quality': 'Variações na qualidade do atendimento dependendo do atendente',
+  'analysis.human.errors': 'Sujeito a erros humanos e falhas de comunicação',
+  'analysis.human.hours': 'Limitado por horários de trabalho',
+  'analysis.human.cost': 'Alto custo operacional (salários, benefícios, treinamentos)',
+  'analysis.human.repetitive': 'Resposta mais lenta em casos repetitivos',
+  'analysis.human.training': 'Necessidade constante de treinamento',
+  'analysis.ai.consistent': 'Respostas consistentes e padronizadas',
+  'analysis.ai.accurate': 'Processa informações com precisão e reduz erros',
+  'analysis.ai.available': 'Disponível 24/7, sem interrupções',
+  'analysis.ai.savings': 'Reduz custos a longo prazo após implementação',
+  'analysis.ai.instant': 'Responde instantaneamente a perguntas frequentes',
+  'analysis.ai.learning': 'Aprende continuamente com interações',
+
+  // Conversion curve
+  'curve.title': 'Curva de Conversão por Tempo de Resposta',
+  'curve.segment': 'Segmento',
+  'curve.custom': 'Personalizada',
+  'curve.interpolation': 'Interpolação',
+  'curve.interpolation.step': 'Degraus',
+  'curve.interpolation.linear': 'Linear',
+  'curve.upToMinutes': 'Até (minutos)',
+  'curve.conversionPercent': 'Conversão (%)',
+  'curve.removeBreakpoint': 'Remover faixa',
+  'curve.addBreakpoint': 'Adicionar faixa',
+  'curve.note': 'Tempos acima da última faixa mantêm a última taxa de conversão.',
+  'curve.chart.curve': 'Curva de conversão',
+  'curve.chart.responseTime': 'Tempo de resposta (minutos)',
+  'curve.preset.default': 'Padrão',
+  'curve.preset.dental': 'Clínica odontológica',
+  'curve.preset.aesthetic': 'Clínica de estética',
+  'curve.preset.lab': 'Exames laboratoriais',
+
+  // Advanced assumptions
+  'assumptions.title': 'Premissas avançadas',
+  'assumptions.calendar': 'Calendário',
+  'assumptions.daysPerMonth': 'Dias de contato por mês',
+  'assumptions.workingDaysPerMonth': 'Dias úteis por mês (atendente)',
+  'assumptions.hoursPerDay': 'Horas por dia (atendente)',
+  'assumptions.lostLeads': 'Leads perdidos (%)',
+  'assumptions.costPerHour': 'Custo por hora de atendimento (R$)',
+  'assumptions.aiMonthlyCost': 'Investimento Mensal (IA - R$)',
+  'assumptions.responseTime': 'Tempo de resposta (minutos)',
+  'assumptions.conversionRate': 'Taxa de conversão (%)',
+
+  // Result metrics
+  'metrics.attendances': 'Atendimentos/mês',
+  'metrics.conversionRate': 'Taxa de Conversão',
+  'metrics.conversions': 'Conversões',
+  'metrics.revenue': 'Faturamento',
+  'metrics.monthlyCost': 'Custo Mensal',
+  'metrics.costPerAttendance': 'Custo por Atendimento',
+  'metrics.lostRevenue': 'Perda Mensal',
+  'metrics.annualRevenue': 'Receita Anual',
+  'metrics.annualCost': 'Investimento Anual',
+  'metrics.annualProfit': 'Lucro Anual',
+
+  // Comparison chart
+  'chart.title': 'Comparativo de Desempenho',
+
+  // Share link
+  'share.copy': 'Copiar link',
+  'share.copied': 'Link copiado!',
+  'share.failed': 'Não foi possível copiar',
+
+  // Proposal export
+  'proposal.export': 'Exportar proposta',
+  'proposal.clientName': 'Nome do cliente',
+  'proposal.logo': 'Logotipo',
+  'proposal.print': 'Imprimir',
+  'proposal.downloadPdf': 'Baixar PDF',
+  'proposal.logoError': 'Não foi possível ler o logotipo.',
+  'proposal.pdfError': 'Não foi possível gerar o PDF.',
+  'proposal.fileName': 'proposta',
+  'proposal.fileNameFallback': 'atendimento-ia',
+  'proposal.title': 'Proposta de Atendimento com IA',
+  'proposal.issuedAt': 'Emitida em {date}',
+  'proposal.indicator': 'Indicador',
+  'proposal.inputs': 'Dados informados',
+  'proposal.monthly': 'Comparativo mensal',
+  'proposal.annual': 'Impacto anual',
+  'proposal.chart': 'Comparativo de desempenho',
+  'proposal.chartAlt': 'Gráfico comparativo de desempenho',
+  'proposal.assumptions': 'Premissas utilizadas',
+  'proposal.disclaimer': 'Valores estimados a partir das premissas acima; resultados reais podem variar.',
+  'proposal.contactsPerDay': 'Contatos por dia',
+  'proposal.humanResponseTime': 'Tempo médio de resposta humano',
+  'proposal.ticketValue': 'Ticket médio',
+  'proposal.humanMonthlyCost': 'Investimento mensal (atendente humano)',
+  'proposal.aiMonthlyCost': 'Investimento mensal (IA)',
+  'proposal.workday': 'Jornada do atendente',
+  'proposal.workdayValue': '{days} dias × {hours} h',
+  'proposal.lostLeads': 'Leads perdidos (humano / IA)',
+  'proposal.aiResponse': 'Resposta e conversão da IA',
+  'proposal.costPerHour': 'Custo por hora (humano / IA)',
+  'proposal.humanCurve': 'Curva de conversão humana',
+  'proposal.curvePoint': 'até {minutes} min: {rate}',
+
+  // Saved scenarios
+  'scenarios.title': 'Cenários Salvos',
+  'scenarios.namePlaceholder': 'Nome do cenário (ex.: Clínica X – atual)',
+  'scenarios.defaultName': 'Cenário {number}',
+  'scenarios.copyName': '{name} (cópia)',
+  'scenarios.saveNew': 'Salvar novo',
+  'scenarios.update': 'Atualizar "{name}"',
+  'scenarios.empty': 'Nenhum cenário salvo ainda.',
+  'scenarios.compare': 'Incluir na comparação',
+  'scenarios.updatedAt': 'Atualizado em {date}',
+  'scenarios.duplicate': 'Duplicar',
+  'scenarios.delete': 'Excluir',
+  'scenarios.compareHint': 'Marque de 2 a {max} cenários para compará-los lado a lado.',
+  'scenarios.exportJson': 'Exportar JSON',
+  'scenarios.importJson': 'Importar JSON',
+  'scenarios.fileName': 'cenarios-calculadora',
+  'scenarios.error.import': 'Não foi possível importar o arquivo.',
+  'scenarios.error.invalidJson': 'O arquivo não é um JSON válido.',
+  'scenarios.error.missingVersion': 'Arquivo sem a versão do formato (schemaVersion).',
+  'scenarios.error.unsupportedVersion': 'Versão do formato {version} não suportada por esta calculadora.',
+  'scenarios.error.missingScenarios': 'O arquivo não contém uma lista de cenários.',
+  'scenarios.error.save': 'Não foi possível salvar os cenários neste navegador (modo privado ou armazenamento cheio). Eles ficam disponíveis só até fechar a página.',
+  'scenarios.unnamed': 'Cenário sem nome',
+  'scenarios.comparison.title': 'Comparação de Cenários',
+
+  // Projection
+  'projection.title': 'Projeção e Retorno do Investimento',
+  'projection.months': 'Horizonte ({min}–{max} meses)',
+  'projection.setupFee': 'Taxa de implantação (R$)',
+  'projection.setupFeeFromCosts': 'Definida no modelo de custos detalhado',
+  'projection.rampUpMonths': 'Meses de ramp-up da IA',
+  'projection.rampUpStartPercent': 'Conversão inicial da IA (% da plena)',
+  'projection.monthlyLeadGrowth': 'Crescimento mensal de leads (%)',
+  'projection.annualPriceAdjustment': 'Reajuste anual de preços (%)',
+  'projection.annualDiscountRate': 'Taxa de desconto anual (%)',
+  'projection.cumulativeSavings': 'Economia acumulada (IA vs. humano)',
+  'projection.month': 'Mês {month}',
+  'projection.payback': 'Payback',
+  'projection.paybackNotReached': 'Não atingido',
+  'projection.roi': 'ROI no período',
+  'projection.npv': 'VPL',
+  'projection.table.month': 'Mês',
+  'projection.table.contactsPerDay': 'Contatos/dia',
+  'projection.table.aiConversion': 'Conversão IA',
+  'projection.table.humanProfit': 'Lucro Humano',
+  'projection.table.aiProfit': 'Lucro IA',
+  'projection.table.savings': 'Economia',
+  'projection.table.cumulative': 'Acumulado',
+
+  // Hybrid mode
+  'hybrid.title': 'Modo Híbrido: IA com Transferência para Humano',
+  'hybrid.handoffRate': 'Transferência para humano: {rate}',
+  'hybrid.humanResponseTime': 'Tempo de resposta humano na transferência (minutos)',
+  'hybrid.bestHandoff': 'Melhor taxa de transferência',
+  'hybrid.bestHandoffValue': '{rate} — lucro mensal de {profit}',
+  'hybrid.profit': 'Lucro',
+  'hybrid.chart.handoff': 'Conversas transferidas para humano',
+
+  // Staffing capacity
+  'capacity.title': 'Capacidade da Equipe Humana',
+  'capacity.enable': 'Calcular o tempo de resposta pela capacidade da equipe',
+  'capacity.attendants': 'Atendentes',
+  'capacity.handleTime': 'Tempo por atendimento (min)',
+  'capacity.shiftStart': 'Início do turno (h)',
+  'capacity.shiftEnd': 'Fim do turno (h)',
+  'capacity.target': 'Meta de resposta (min)',
+  'capacity.note': 'Neste modo, o investimento mensal do atendente humano é considerado por pessoa, e os contatos fora do turno contam como leads perdidos.',
+  'capacity.averageWait': 'Espera média no turno',
+  'capacity.overloaded': 'Fila sobrecarregada em algum horário',
+  'capacity.occupancy': 'Ocupação da equipe',
+  'capacity.requiredAttendants': 'Atendentes para a meta',
+  'capacity.unreachable': 'Meta inatingível',
+  'capacity.afterHours': 'Contatos fora do horário',
+  'capacity.perMonth': '{value}/mês',
+  'capacity.ofTotal': '{value} do total',
+  'capacity.distribution': 'Distribuição de contatos por hora (peso relativo)',
+  'capacity.closed': 'fechado',
+
+  // Sensitivity
+  'sensitivity.title': 'Análise de Sensibilidade',
+  'sensitivity.baseGap': 'Diferença de lucro anual (IA − humano) no cenário atual:',
+  'sensitivity.variation': 'Variação de cada premissa (±%)',
+  'sensitivity.heatmap.title': 'Onde a IA deixa de compensar',
+  'sensitivity.heatmap.xAxis': 'Eixo horizontal',
+  'sensitivity.heatmap.yAxis': 'Eixo vertical',
+  'sensitivity.heatmap.note': 'Células em vermelho indicam combinações em que o atendimento humano dá mais lucro anual que a IA.',
+  'sensitivity.variable.contactsPerDay': 'Contatos por dia',
+  'sensitivity.variable.responseTime': 'Tempo de resposta humano',
+  'sensitivity.variable.ticketValue': 'Ticket médio',
+  'sensitivity.variable.humanMonthlyCost': 'Investimento mensal humano',
+  'sensitivity.variable.humanCostPerHour': 'Custo por hora humano',
+  'sensitivity.variable.aiCostPerMonth': 'Investimento mensal IA',
+  'sensitivity.variable.aiCostPerHour': 'Custo por hora IA',
+  'sensitivity.variable.daysPerMonth': 'Dias de contato por mês',
+  'sensitivity.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'sensitivity.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'sensitivity.variable.aiResponseTime': 'Tempo de resposta IA',
+  'sensitivity.variable.aiConversionRate': 'Conversão da IA',
+
+  // Uncertainty
+  'uncertainty.title': 'Incerteza',
+  'uncertainty.enable': 'Simular faixas de valores (Monte Carlo)',
+  'uncertainty.variable': 'Variável',
+  'uncertainty.distribution': 'Distribuição',
+  'uncertainty.min': 'Mín. (%)',
+  'uncertainty.max': 'Máx. (%)',
+  'uncertainty.note': 'Faixas relativas ao valor atual de cada métrica. Os cartões de resultado passam a exibir P10, P50 e P90.',
+  'uncertainty.iterations': 'Simulações ({min}–{max})',
+  'uncertainty.iterationsRun': '{count} simulações',
+  'uncertainty.probability': 'Probabilidade de a IA superar o humano',
+  'uncertainty.profitGap': 'Diferença de lucro anual',
+  'uncertainty.running': 'Simulando…',
+  'uncertainty.chart.simulations': 'Simulações',
+  'uncertainty.chart.profitGap': 'Diferença de lucro anual (IA − humano)',
+  'uncertainty.variable.contactsPerDay': 'Contatos por dia',
+  'uncertainty.variable.ticketValue': 'Ticket médio',
+  'uncertainty.variable.humanConversionRate': 'Conversão humana',
+  'uncertainty.variable.aiConversionRate': 'Conversão da IA',
+  'uncertainty.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'uncertainty.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'uncertainty.shape.fixed': 'Fixo',
+  'uncertainty.shape.uniform': 'Uniforme',
+  'uncertainty.shape.triangular': 'Triangular',
+  'uncertainty.shape.normal': 'Normal (P10–P90)',
+
+  // Language and currency
+  'locale.language': 'Idioma',
+  'locale.currency': 'Moeda',
+  'locale.exchangeRate': 'Taxa de câmbio',
+  'locale.exchangeRateHint': 'Os valores são calculados em reais e convertidos pela cotação informada.',
+  'locale.saveError': 'Não foi possível salvar esta preferência no navegador; ela vale só até fechar a página.',
+  // Lead history import
+  'import.title': 'Importar Histórico de Leads',
+  'import.description': 'Envie um CSV ou XLSX exportado das conversas da clínica (data da primeira mensagem, data da primeira resposta, convertido sim/não e valor do ticket). O arquivo é lido apenas no seu navegador.',
+  'import.fileSummary': '{name}: {rows} linhas',
+  'import.mapping': 'Mapeamento de colunas',
+  'import.optional': '(opcional)',
+  'import.notMapped': '— não usar —',
+  'import.unnamedColumn': 'Coluna {number}',
+  'import.mappingIncomplete': 'Escolha as colunas de primeira mensagem, primeira resposta e conversão para analisar o histórico.',
+  'import.column.firstMessageAt': 'Primeira mensagem',
+  'import.column.firstReplyAt': 'Primeira resposta',
+  'import.column.converted': 'Convertido',
+  'import.column.ticketValue': 'Valor do ticket',
+  'import.rowErrors': '{count} linhas ignoradas por erro; {valid} linhas válidas.',
+  'import.rowError': 'Linha {row}: {message}',
+  'import.moreErrors': '… e mais {count} linhas com erro.',
+  'import.businessStart': 'Início do expediente (h)',
+  'import.businessEnd': 'Fim do expediente (h)',
+  'import.leadsOverDays': '{leads} leads em {days} dias',
+  'import.averageResponse': 'Tempo médio de resposta',
+  'import.responsePercentiles': 'Mediana {median} min · P90 {p90} min',
+  'import.unanswered': 'Sem resposta',
+  'import.afterHours': 'Fora do expediente',
+  'import.table.responseTime': 'Tempo de resposta',
+  'import.table.leads': 'Leads',
+  'import.table.observed': 'Conversão real',
+  'import.table.curve': 'Conversão da curva',
+  'import.bucketRange': '{from}–{to} min',
+  'import.bucketOver': 'acima de {from} min',
+  'import.apply': 'Aplicar às métricas',
+  'import.applyHint': 'Substitui contatos por dia, tempo médio de resposta e ticket médio; os custos não mudam.',
+  'import.error.read': 'Não foi possível ler o arquivo.',
+  'import.error.unsupportedFormat': 'Formato .{extension} não suportado. Use CSV ou XLSX.',
+  'import.error.invalidXlsx': 'A planilha XLSX está corrompida ou em um formato não reconhecido.',
+  'import.error.empty': 'O arquivo precisa de uma linha de cabeçalho e pelo menos uma linha de dados.',
+  'import.error.noValidRows': 'Nenhuma linha válida para analisar.',
+  'import.error.invalidDate': 'data/hora inválida "{value}"',
+  'import.error.replyBeforeMessage': 'a resposta é anterior à primeira mensagem',
+  'import.error.invalidConverted': 'valor de conversão não reconhecido "{value}" (use sim/não)',
+  'import.error.invalidTicket': 'valor do ticket inválido "{value}"',
+  // Field validation
+  'validation.required': 'Preencha este campo',
+  'validation.notANumber': 'Digite um número válido, como 1.200,50',
+  'validation.integer': 'Use um número inteiro',
+  'validation.negative': 'O valor não pode ser negativo',
+  'validation.min': 'O valor mínimo é {min}',
+  'validation.max': 'O valor máximo é {max}',
+  'results.insufficientData': 'Dados insuficientes',
+  'results.insufficientDataHint': 'Informe contatos por dia e dias por mês maiores que zero e com menos de 100% de leads perdidos.',
+  // Batch calculation (CLI)
+  'batch.error.invalidNumber': 'valor inválido em {column}: "{value}"',
+  'batch.error.notAScenario': 'O JSON não contém um cenário (metrics/assumptions) nem um arquivo de cenários exportado.',
+  'batch.rowName': 'Linha {row}',
+  // Embeddable widget
+  'embed.gain': 'Com a IA, o lucro anual aumenta {value}',
+  'embed.loss': 'Com a IA, o lucro anual diminui {value}',
+  // Lead capture
+  'leads.title': 'Receba esta análise',
+  'leads.description': 'Enviamos o estudo completo com os números do seu cenário e um especialista entra em contato para tirar dúvidas.',
+  'leads.name': 'Nome',
+  'leads.clinic': 'Clínica',
+  'leads.phone': 'Telefone / WhatsApp',
+  'leads.email': 'E-mail',
+  'leads.consentText': 'Autorizo o uso destes dados para receber esta análise e ser contatado sobre ela, nos termos da Lei Geral de Proteção de Dados (Lei nº 13.709/2018).',
+  'leads.privacyNote': 'Os dados são usados apenas para este contato e não são compartilhados com terceiros. Você pode pedir acesso, correção ou exclusão a qualquer momento.',
+  'leads.submit': 'Quero receber a análise',
+  'leads.sending': 'Enviando…',
+  'leads.sent': 'Análise enviada!',
+  'leads.sentText': 'Em breve você recebe o estudo em {email}.',
+  'leads.queued': 'Pedido registrado',
+  'leads.queuedText': 'Sem conexão no momento: o envio para {email} será feito automaticamente quando a internet voltar.',
+  'leads.error.phone': 'Informe o telefone com DDD',
+  'leads.error.email': 'E-mail inválido',
+  'leads.error.consent': 'É preciso aceitar o uso dos dados para enviar',
+  'leads.error.network': 'Não foi possível conectar ao servidor.',
+  'leads.error.server': 'O servidor recusou o envio (erro {status}). Tente novamente mais tarde.',
+  'leads.error.generic': 'Não foi possível enviar. Tente novamente.',
+  'leads.error.notConfigured': 'O envio de análises ainda não está disponível. Tente novamente mais tarde.',
+  // Detailed cost model
+  'investment.showDetails': 'Ver detalhamento',
+  'investment.hideDetails': 'Ocultar detalhamento',
+  'costs.title': 'Custos Detalhados',
+  'costs.enable': 'Calcular os investimentos a partir dos custos detalhados',
+  'costs.human.title': 'Atendente humano (por atendente)',
+  'costs.human.baseSalary': 'Salário base',
+  'costs.human.benefitsPerMonth': 'Benefícios por mês (VT, VR, plano de saúde)',
+  'costs.human.inssRate': 'INSS patronal (%)',
+  'costs.human.fgtsRate': 'FGTS (%)',
+  'costs.human.trainingPerYear': 'Treinamento por ano',
+  'costs.human.annualTurnoverRate': 'Rotatividade anual (%)',
+  'costs.human.replacementCost': 'Custo de cada substituição',
+  'costs.human.note': '13º e férias (com 1/3) são provisionados por mês; INSS e FGTS incidem sobre salário, 13º e férias.',
+  'costs.human.total': 'Custo mensal por atendente',
+  'costs.human.salary': 'Salário base',
+  'costs.human.thirteenth': '13º salário',
+  'costs.human.vacation': 'Férias + 1/3',
+  'costs.human.inss': 'INSS ({rate}%)',
+  'costs.human.fgts': 'FGTS ({rate}%)',
+  'costs.human.benefits': 'Benefícios',
+  'costs.human.training': 'Treinamento',
+  'costs.human.turnover': 'Reposição por rotatividade',
+  'costs.ai.title': 'Atendente IA',
+  'costs.ai.billingUnit': 'Cobrança',
+  'costs.ai.perConversation': 'Por conversa',
+  'costs.ai.perMessage': 'Por mensagem',
+  'costs.ai.messagesPerConversation': 'Mensagens por conversa',
+  'costs.ai.setupFee': 'Taxa de implantação',
+  'costs.ai.setupFeeHint': 'Pago uma vez: entra na projeção, não no custo mensal',
+  'costs.ai.tier': 'Plano',
+  'costs.ai.monthlyFee': 'Mensalidade',
+  'costs.ai.includedUnits': '{unit} inclusas',
+  'costs.ai.overageRate': 'Excedente por {unit}',
+  'costs.ai.unit.conversation': 'conversas',
+  'costs.ai.unit.message': 'mensagens',
+  'costs.ai.newTier': 'Plano {number}',
+  'costs.ai.addTier': 'Adicionar plano',
+  'costs.ai.removeTier': 'Remover plano',
+  'costs.ai.total': 'Custo mensal estimado da IA',
+  'costs.ai.volume': '{count} {unit} por mês no plano {tier}',
+  'costs.ai.plan': 'Plano {name}',
+  'costs.ai.overageConversations': 'Excedente ({count} conversas)',
+  'costs.ai.overageMessages': 'Excedente ({count} mensagens)',
+  // Chart panel
+  'charts.title': 'Gráficos',
+  'charts.tab.funnel': 'Funil de leads',
+  'charts.tab.revenueCost': 'Faturamento x custo',
+  'charts.tab.waterfall': 'Receita perdida',
+  'charts.exportImage': 'Baixar imagem',
+  'charts.exportCsv': 'Baixar CSV',
+  'charts.fileName': 'grafico',
+  'charts.funnel.description': 'Contatos do mês até o faturamento em cada modo. Quantidades no eixo da esquerda, faturamento no eixo da direita.',
+  'charts.funnel.contacts': 'Contatos',
+  'charts.funnel.responded': 'Atendidos',
+  'charts.funnel.conversions': 'Convertidos',
+  'charts.funnel.revenue': 'Faturamento',
+  'charts.funnel.countAxis': 'Leads por mês',
+  'charts.funnel.revenueAxis': 'Faturamento mensal',
+  'charts.revenueCost.description': 'Faturamento, custo e lucro mensais de cada modo.',
+  'charts.revenueCost.revenue': 'Faturamento',
+  'charts.revenueCost.cost': 'Custo',
+  'charts.revenueCost.profit': 'Lucro',
+  'charts.waterfall.description': 'De onde vem a diferença de faturamento entre o atendimento humano e a IA: leads que ficam sem resposta e a menor conversão dos que são atendidos.',
+  'charts.waterfall.label': 'Faturamento mensal',
+  'charts.waterfall.humanRevenue': 'Faturamento humano',
+  'charts.waterfall.lostLeads': 'Leads perdidos',
+  'charts.waterfall.lowerConversion': 'Menor conversão',
+  'charts.waterfall.aiRevenue': 'Faturamento IA',
+  'charts.tab.whatIf': 'E se…',
+  'charts.whatIf.description': 'Faturamento, custo e lucro mensais de cada modo no cenário atual e em um cenário salvo. Alterne entre os dois para ver as barras se moverem.',
+  'charts.whatIf.compareWith': 'Comparar com',
+  'charts.whatIf.current': 'Cenário atual',
+  'charts.whatIf.noSaved': 'Salve um cenário para compará-lo com o atual.',
+  'charts.whatIf.profitChange': 'Variação do lucro – {mode}'
+};
+
+export default ptBR;
@@ -0,0 +1,416 @@
+import { Messages } from '../i18n';
+
+const ptPT: Messages = {
+  // Modes
+  'mode.human': 'Atendimento Humano',
+  'mode.ai': 'Atendimento IA',
+  'mode.hybrid': 'Híbrido',
+
+  // Main page
+  'app.title': 'Calculadora de Investimento e Eficiência Operacional',
+  'app.subtitle': 'Dimensione o impacto da IA no seu negócio de saúde',
+  'inputs.title': 'Configurar Métricas',
+  'inputs.contactsPerDay': 'Contactos por Dia',
+  'inputs.responseTime': 'Tempo Médio de Resposta (minutos)',
+  'inputs.responseTimeFromCapacity': 'Calculado pela capacidade da equipa',
+  'inputs.costFromCostModel': 'Calculado pelo modelo de custos detalhado',
+  'inputs.ticketValue': 'Valor Médio por Cliente (R$)',
+  'inputs.humanMonthlyCost': 'Investimento Mensal (Assistente Humano - R$)',
+  'annual.title': 'Impacto Anual',
+  'advantages.title': 'Vantagens do Atendimento com IA',
+  'advantages.immediate': 'Resposta Imediata',
+  'advantages.immediateText': 'Atendimento em até {minutes} min',
+  'advantages.conversion': 'Maior Conversão',
+  'advantages.conversionText': 'Taxa de conversão de até {rate}%',
+  'advantages.costBenefit': 'Custo-Benefício',
+  'advantages.costBenefitText': 'Menor custo por atendimento',
+  'investment.title': 'Comparativo de Investimento',
+  'investment.human': 'Investimento em Atendimento Humano',
+  'investment.ai': 'Investimento em IA',
+  'investment.perMonth': '/mês',
+  'investment.costPerHour': 'Custo por hora: {value}',
+  'analysis.title': 'Análise Comparativa Detalhada',
+  'analysis.human.quality': 'Variações na qualidade do atendimento consoante o assistente',
+  'analysis.human.errors': 'Sujeito a erros humanos e falhas de comunicação',
+  'analysis.human.hours': 'Limitado por horários de trabalho',
+  'analysis.human.cost': 'Alto custo operacional (salários, benefícios, formações)',
+  'analysis.human.repetitive': 'Resposta mais lenta em casos repetitivos',
+  'analysis.human.training': 'Necessidade constante de formação',
+  'analysis.ai.consistent': 'Respostas consistentes e padronizadas',
+  'analysis.ai.accurate': 'Processa informações com precisão e reduz erros',
+  'analysis.ai.available': 'Disponível 24 h/7 dias, sem interrupções',
+  'analysis.ai.savings': 'Reduz custos a longo prazo após a implementação',
+  'analysis.ai.instant': 'Responde instantaneamente a perguntas frequentes',
+  'analysis.ai.learning': 'Aprende continuamente com interações',
+
+  // Conversion curve
+  'curve.title': 'Curva de Conversão por Tempo de Resposta',
+  'curve.segment': 'Segmento',
+  'curve.custom': 'Personalizada',
+  'curve.interpolation': 'Interpolação',
+  'curve.interpolation.step': 'Escalões',
+  'curve.interpolation.linear': 'Linear',
+  'curve.upToMinutes': 'Até (minutos)',
+  'curve.conversionPercent': 'Conversão (%)',
+  'curve.removeBreakpoint': 'Remover intervalo',
+  'curve.addBreakpoint': 'Adicionar intervalo',
+  'curve.note': 'Tempos acima do último intervalo mantêm a última taxa de conversão.',
+  'curve.chart.curve': 'Curva de conversão',
+  'curve.chart.responseTime': 'Tempo de resposta (minutos)',
+  'curve.preset.default': 'Padrão',
+  'curve.preset.dental': 'Clínica odontológica',
+  'curve.preset.aesthetic': 'Clínica de estética',
+  'curve.preset.lab': 'Exames laboratoriais',
+
+  // Advanced assumptions
+  'assumptions.title': 'Premissas avançadas',
+  'assumptions.calendar': 'Calendário',
+  'assumptions.daysPerMonth': 'Dias de contacto por mês',
+  'assumptions.workingDaysPerMonth': 'Dias úteis por mês (assistente)',
+  'assumptions.hoursPerDay': 'Horas por dia (assistente)',
+  'assumptions.lostLeads': 'Leads perdidos (%)',
+  'assumptions.costPerHour': 'Custo por hora de atendimento (R$)',
+  'assumptions.aiMonthlyCost': 'Investimento Mensal (IA - R$)',
+  'assumptions.responseTime': 'Tempo de resposta (minutos)',
+  'assumptions.conversionRate': 'Taxa de conversão (%)',
+
+  // Result metrics
+  'metrics.attendances': 'Atendimentos/mês',
+  'metrics.conversionRate': 'Taxa de Conversão',
+  'metrics.conversions': 'Conversões',
+  'metrics.revenue': 'Faturação',
+  'metrics.monthlyCost': 'Custo Mensal',
+  'metrics.costPerAttendance': 'Custo por Atendimento',
+  'metrics.lostRevenue': 'Perda Mensal',
+  'metrics.annualRevenue': 'Receita Anual',
+  'metrics.annualCost': 'Investimento Anual',
+  'metrics.annualProfit': 'Lucro Anual',
+
+  // Comparison chart
+  'chart.title': 'Comparativo de Desempenho',
+
+  // Share link
+  'share.copy': 'Copiar ligação',
+  'share.copied': 'Ligação copiada!',
+  'share.failed': 'Não foi possível copiar',
+
+  // Proposal export
+  'proposal.export': 'Exportar proposta',
+  'proposal.clientName': 'Nome do cliente',
+  'proposal.logo': 'Logotipo',
+  'proposal.print': 'Imprimir',
+  'proposal.downloadPdf': 'Transferir PDF',
+  'proposal.logoError': 'Não foi possível ler o logotipo.',
+  'proposal.pdfError': 'Não foi possível gerar o PDF.',
+  'proposal.fileName': 'proposta',
+  'proposal.fileNameFallback': 'atendimento-ia',
+  'proposal.title': 'Proposta de Atendimento com IA',
+  'proposal.issuedAt': 'Emitida a {date}',
+  'proposal.indicator': 'Indicador',
+  'proposal.inputs': 'Dados informados',
+  'proposal.monthly': 'Comparativo mensal',
+  'proposal.annual': 'Impacto anual',
+  'proposal.chart': 'Comparativo de desempenho',
+  'proposal.chartAlt': 'Gráfico comparativo de desempenho',
+  'proposal.assumptions': 'Premissas utilizadas',
+  'proposal.disclaimer': 'Valores estimados a partir das premissas acima; resultados reais podem variar.',
+  'proposal.contactsPerDay': 'Contactos por dia',
+  'proposal.humanResponseTime': 'Tempo médio de resposta humano',
+  'proposal.ticketValue': 'Valor médio',
+  'proposal.humanMonthlyCost': 'Investimento mensal (assistente humano)',
+  'proposal.aiMonthlyCost': 'Investimento mensal (IA)',
+  'proposal.workday': 'Jornada do assistente',
+  'proposal.workdayValue': '{days} dias × {hours} h',
+  'proposal.lostLeads': 'Leads perdidos (humano / IA)',
+  'proposal.aiResponse': 'Resposta e conversão da IA',
+  'proposal.costPerHour': 'Custo por hora (humano / IA)',
+  'proposal.humanCurve': 'Curva de conversão humana',
+  'proposal.curvePoint': 'até {minutes} min: {rate}',
+
+  // Saved scenarios
+  'scenarios.title': 'Cenários Guardados',
+  'scenarios.namePlaceholder': 'Nome do cenário (ex.: Clínica X – atual)',
+  'scenarios.defaultName': 'Cenário {number}',
+  'scenarios.copyName': '{name} (cópia)',
+  'scenarios.saveNew': 'Guardar novo',
+  'scenarios.update': 'Atualizar "{name}"',
+  'scenarios.empty': 'Nenhum cenário guardado ainda.',
+  'scenarios.compare': 'Incluir na comparação',
+  'scenarios.updatedAt': 'Atualizado a {date}',
+  'scenarios.duplicate': 'Duplicar',
+  'scenarios.delete': 'Eliminar',
+  'scenarios.compareHint': 'Selecione de 2 a {max} cenários para compará-los lado a lado.',
+  'scenarios.exportJson': 'Exportar JSON',
+  'scenarios.importJson': 'Importar JSON',
+  'scenarios.fileName': 'cenarios-calculadora',
+  'scenarios.error.import': 'Não foi possível importar o ficheiro.',
+  'scenarios.error.invalidJson': 'O ficheiro não é um JSON válido.',
+  'scenarios.error.missingVersion': 'Ficheiro sem a versão do formato (schemaVersion).',
+  'scenarios.error.unsupportedVersion': 'Versão do formato {version} não suportada por esta calculadora.',
+  'scenarios.error.missingScenarios': 'O ficheiro não contém uma lista de cenários.',
+  'scenarios.error.save': 'Não foi possível guardar os cenários neste navegador (modo privado ou armazenamento cheio). Ficam disponíveis só até fechar a página.',
+  'scenarios.unnamed': 'Cenário sem nome',
+  'scenarios.comparison.title': 'Comparação de Cenários',
+
+  // Projection
+  'projection.title': 'Projeção e Retorno do Investimento',
+  'projection.months': 'Horizonte ({min}–{max} meses)',
+  'projection.setupFee': 'Taxa de implementação (R$)',
+  'projection.setupFeeFromCosts': 'Definida no modelo de custos detalhado',
+  'projection.rampUpMonths': 'Meses de arranque da IA',
+  'projection.rampUpStartPercent': 'Conversão inicial da IA (% da plena)',
+  'projection.monthlyLeadGrowth': 'Crescimento mensal de leads (%)',
+  'projection.annualPriceAdjustment': 'Atualização anual de preços (%)',
+  'projection.annualDiscountRate': 'Taxa de desconto anual (%)',
+  'projection.cumulativeSavings': 'Poupança acumulada (IA vs. humano)',
+  'projection.month': 'Mês {month}',
+  'projection.payback': 'Payback',
+  'projection.paybackNotReached': 'Não atingido',
+  'projection.roi': 'ROI no período',
+  'projection.npv': 'VAL',
+  'projection.table.month': 'Mês',
+  'projection.table.contactsPerDay': 'Contactos/dia',
+  'projection.table.aiConversion': 'Conversão IA',
+  'projection.table.humanProfit': 'Lucro Humano',
+  'projection.table.aiProfit': 'Lucro IA',
+  'projection.table.savings': 'Poupança',
+  'projection.table.cumulative': 'Acumulado',
+
+  // Hybrid mode
+  'hybrid.title': 'Modo Híbrido: IA com Transferência para Humano',
+  'hybrid.handoffRate': 'Transferência para humano: {rate}',
+  'hybrid.humanResponseTime': 'Tempo de resposta humano na transferência (minutos)',
+  'hybrid.bestHandoff': 'Melhor taxa de transferência',
+  'hybrid.bestHandoffValue': '{rate} — lucro mensal de {profit}',
+  'hybrid.profit': 'Lucro',
+  'hybrid.chart.handoff': 'Conversas transferidas para humano',
+
+  // Staffing capacity
+  'capacity.title': 'Capacidade da Equipa Humana',
+  'capacity.enable': 'Calcular o tempo de resposta pela capacidade da equipa',
+  'capacity.attendants': 'Assistentes',
+  'capacity.handleTime': 'Tempo por atendimento (min)',
+  'capacity.shiftStart': 'Início do turno (h)',
+  'capacity.shiftEnd': 'Fim do turno (h)',
+  'capacity.target': 'Objetivo de resposta (min)',
+  'capacity.note': 'Neste modo, o investimento mensal do assistente humano é considerado por pessoa, e os contactos fora do turno contam como leads perdidos.',
+  'capacity.averageWait': 'Espera média no turno',
+  'capacity.overloaded': 'Fila sobrecarregada em algum horário',
+  'capacity.occupancy': 'Ocupação da equipa',
+  'capacity.requiredAttendants': 'Assistentes para o objetivo',
+  'capacity.unreachable': 'Objetivo inatingível',
+  'capacity.afterHours': 'Contactos fora de horas',
+  'capacity.perMonth': '{value}/mês',
+  'capacity.ofTotal': '{value} do total',
+  'capacity.distribution': 'Distribuição de contactos por hora (peso relativo)',
+  'capacity.closed': 'fechado',
+
+  // Sensitivity
+  'sensitivity.title': 'Análise de Sensibilidade',
+  'sensitivity.baseGap': 'Diferença de lucro anual (IA − humano) no cenário atual:',
+  'sensitivity.variation': 'Variação de cada premissa (±%)',
+  'sensitivity.heatmap.title': 'Onde a IA deixa de compensar',
+  'sensitivity.heatmap.xAxis': 'Eixo horizontal',
+  'sensitivity.heatmap.yAxis': 'Eixo vertical',
+  'sensitivity.heatmap.note': 'Células em vermelho indicam combinações em que o atendimento humano dá mais lucro anual que a IA.',
+  'sensitivity.variable.contactsPerDay': 'Contactos por dia',
+  'sensitivity.variable.responseTime': 'Tempo de resposta humano',
+  'sensitivity.variable.ticketValue': 'Valor médio',
+  'sensitivity.variable.humanMonthlyCost': 'Investimento mensal humano',
+  'sensitivity.variable.humanCostPerHour': 'Custo por hora humano',
+  'sensitivity.variable.aiCostPerMonth': 'Investimento mensal IA',
+  'sensitivity.variable.aiCostPerHour': 'Custo por hora IA',
+  'sensitivity.variable.daysPerMonth': 'Dias de contacto por mês',
+  'sensitivity.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'sensitivity.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'sensitivity.variable.aiResponseTime': 'Tempo de resposta IA',
+  'sensitivity.variable.aiConversionRate': 'Conversão da IA',
+
+  // Uncertainty
+  'uncertainty.title': 'Incerteza',
+  'uncertainty.enable': 'Simular intervalos de valores (Monte Carlo)',
+  'uncertainty.variable': 'Variável',
+  'uncertainty.distribution': 'Distribuição',
+  'uncertainty.min': 'Mín. (%)',
+  'uncertainty.max': 'Máx. (%)',
+  'uncertainty.note': 'Intervalos relativos ao valor atual de cada métrica. Os cartões de resultado passam a mostrar P10, P50 e P90.',
+  'uncertainty.iterations': 'Simulações ({min}–{max})',
+  'uncertainty.iterationsRun': '{count} simulações',
+  'uncertainty.probability': 'Probabilidade de a IA superar o humano',
+  'uncertainty.profitGap': 'Diferença de lucro anual',
+  'uncertainty.running': 'A simular…',
+  'uncertainty.chart.simulations': 'Simulações',
+  'uncertainty.chart.profitGap': 'Diferença de lucro anual (IA − humano)',
+  'uncertainty.variable.contactsPerDay': 'Contactos por dia',
+  'uncertainty.variable.ticketValue': 'Valor médio',
+  'uncertainty.variable.humanConversionRate': 'Conversão humana',
+  'uncertainty.variable.aiConversionRate': 'Conversão da IA',
+  'uncertainty.variable.humanLostLeadsRate': 'Leads perdidos (humano)',
+  'uncertainty.variable.aiLostLeadsRate': 'Leads perdidos (IA)',
+  'uncertainty.shape.fixed': 'Fixo',
+  'uncertainty.shape.uniform': 'Uniforme',
+  'uncertainty.shape.triangular': 'Triangular',
+  'uncertainty.shape.normal': 'Normal (P10–P90)',
+
+  // Language and currency
+  'locale.language': 'Idioma',
+  'locale.currency': 'Moeda',
+  'locale.exchangeRate': 'Taxa de câmbio',
+  'locale.exchangeRateHint': 'Os valores são calculados em reais brasileiros e convertidos à taxa de câmbio indicada.',
+  'locale.saveError': 'Não foi possível guardar esta preferência no navegador; vale só até fechar a página.',
+  // Lead history import
+  'import.title': 'Importar Histórico de Leads',
+  'import.description': 'Envie um CSV ou XLSX exportado das conversas da clínica (data da primeira mensagem, data da primeira resposta, convertido sim/não e valor médio). O ficheiro é lido apenas no seu navegador.',
+  'import.fileSummary': '{name}: {rows} linhas',
+  'import.mapping': 'Mapeamento de colunas',
+  'import.optional': '(opcional)',
+  'import.notMapped': '— não usar —',
+  'import.unnamedColumn': 'Coluna {number}',
+  'import.mappingIncomplete': 'Escolha as colunas de primeira mensagem, primeira resposta e conversão para analisar o histórico.',
+  'import.column.firstMessageAt': 'Primeira mensagem',
+  'import.column.firstReplyAt': 'Primeira resposta',
+  'import.column.converted': 'Convertido',
+  'import.column.ticketValue': 'Valor por cliente',
+  'import.rowErrors': '{count} linhas ignoradas por erro; {valid} linhas válidas.',
+  'import.rowError': 'Linha {row}: {message}',
+  'import.moreErrors': '… e mais {count} linhas com erro.',
+  'import.businessStart': 'Início do horário de funcionamento (h)',
+  'import.businessEnd': 'Fim do horário de funcionamento (h)',
+  'import.leadsOverDays': '{leads} leads em {days} dias',
+  'import.averageResponse': 'Tempo médio de resposta',
+  'import.responsePercentiles': 'Mediana {median} min · P90 {p90} min',
+  'import.unanswered': 'Sem resposta',
+  'import.afterHours': 'Fora de horas',
+  'import.table.responseTime': 'Tempo de resposta',
+  'import.table.leads': 'Leads',
+  'import.table.observed': 'Conversão real',
+  'import.table.curve': 'Conversão da curva',
+  'import.bucketRange': '{from}–{to} min',
+  'import.bucketOver': 'acima de {from} min',
+  'import.apply': 'Aplicar às métricas',
+  'import.applyHint': 'Substitui contactos por dia, tempo médio de resposta e valor médio; os custos não mudam.',
+  'import.error.read': 'Não foi possível ler o ficheiro.',
+  'import.error.unsupportedFormat': 'Formato .{extension} não suportado. Use CSV ou XLSX.',
+  'import.error.invalidXlsx': 'A folha de cálculo XLSX está corrompida ou num formato não reconhecido.',
+  'import.error.empty': 'O ficheiro precisa de uma linha de cabeçalho e pelo menos uma linha de dados.',
+  'import.error.noValidRows': 'Nenhuma linha válida para analisar.',
+  'import.error.invalidDate': 'data/hora inválida "{value}"',
+  'import.error.replyBeforeMessage': 'a resposta é anterior à primeira mensagem',
+  'import.error.invalidConverted': 'valor de conversão não reconhecido "{value}" (use sim/não)',
+  'import.error.invalidTicket': 'valor por cliente inválido "{value}"',
+  // Field validation
+  'validation.required': 'Preencha este campo',
+  'validation.notANumber': 'Introduza um número válido, como 1.200,50',
+  'validation.integer': 'Use um número inteiro',
+  'validation.negative': 'O valor não pode ser negativo',
+  'validation.min': 'O valor mínimo é {min}',
+  'validation.max': 'O valor máximo é {max}',
+  'results.insufficientData': 'Dados insuficientes',
+  'results.insufficientDataHint': 'Indique contactos por dia e dias por mês maiores que zero e menos de 100% de leads perdidos.',
+  // Batch calculation (CLI)
+  'batch.error.invalidNumber': 'valor inválido em {column}: "{value}"',
+  'batch.error.notAScenario': 'O JSON não contém um cenário (metrics/assumptions) nem um ficheiro de cenários exportado.',
+  'batch.rowName': 'Linha {row}',
+  // Embeddable widget
+  'embed.gain': 'Com a IA, o lucro anual aumenta {value}',
+  'embed.loss': 'Com a IA, o lucro anual diminui {value}',
+  // Lead capture
+  'leads.title': 'Receba esta análise',
+  'leads.description': 'Enviamos o estudo completo com os números do seu cenário e um especialista entra em contacto para esclarecer dúvidas.',
+  'leads.name': 'Nome',
+  'leads.clinic': 'Clínica',
+  'leads.phone': 'Telefone / WhatsApp',
+  'leads.email': 'E-mail',
+  'leads.consentText': 'Autorizo a utilização destes dados para receber esta análise e ser contactado sobre ela, nos termos da legislação de proteção de dados aplicável.',
+  'leads.privacyNote': 'Os dados são usados apenas para este contacto e não são partilhados com terceiros. Pode pedir acesso, retificação ou eliminação a qualquer momento.',
+  'leads.submit': 'Quero receber a análise',
+  'leads.sending': 'A enviar…',
+  'leads.sent': 'Análise enviada!',
+  'leads.sentText': 'Em breve receberá o estudo em {email}.',
+  'leads.queued': 'Pedido registado',
+  'leads.queuedText': 'Sem ligação de momento: o envio para {email} será feito automaticamente quando a internet voltar.',
+  'leads.error.phone': 'Indique o telefone com indicativo',
+  'leads.error.email': 'E-mail inválido',
+  'leads.error.consent': 'É necessário aceitar a utilização dos dados para enviar',
+  'leads.error.network': 'Não foi possível ligar ao servidor.',
+  'leads.error.server': 'O servidor recusou o envio (erro {status}). Tente novamente mais tarde.',
+  'leads.error.generic': 'Não foi possível enviar. Tente novamente.',
+  'leads.error.notConfigured': 'O envio de análises ainda não está disponível. Tente novamente mais tarde.',
+  // Detailed cost model
+  'investment.showDetails': 'Ver detalhe',
+  'investment.hideDetails': 'Ocultar detalhe',
+  'costs.title': 'Custos Detalhados',
+  'costs.enable': 'Calcular os investimentos a partir dos custos detalhados',
+  'costs.human.title': 'Atendente humano (por atendente)',
+  'costs.human.baseSalary': 'Salário base',
+  'costs.human.benefitsPerMonth': 'Benefícios por mês (transporte, alimentação, saúde)',
+  'costs.human.inssRate': 'INSS patronal (%)',
+  'costs.human.fgtsRate': 'FGTS (%)',
+  'costs.human.trainingPerYear': 'Formação por ano',
+  'costs.human.annualTurnoverRate': 'Rotatividade anual (%)',
+  'costs.human.replacementCost': 'Custo de cada substituição',
+  'costs.human.note': '13º e férias (com 1/3) são provisionados por mês; INSS e FGTS incidem sobre salário, 13º e férias.',
+  'costs.human.total': 'Custo mensal por atendente',
+  'costs.human.salary': 'Salário base',
+  'costs.human.thirteenth': '13º mês',
+  'costs.human.vacation': 'Férias + 1/3',
+  'costs.human.inss': 'INSS ({rate}%)',
+  'costs.human.fgts': 'FGTS ({rate}%)',
+  'costs.human.benefits': 'Benefícios',
+  'costs.human.training': 'Formação',
+  'costs.human.turnover': 'Reposição por rotatividade',
+  'costs.ai.title': 'Atendente IA',
+  'costs.ai.billingUnit': 'Cobrança',
+  'costs.ai.perConversation': 'Por conversa',
+  'costs.ai.perMessage': 'Por mensagem',
+  'costs.ai.messagesPerConversation': 'Mensagens por conversa',
+  'costs.ai.setupFee': 'Taxa de implementação',
+  'costs.ai.setupFeeHint': 'Pago uma vez: entra na projeção, não no custo mensal',
+  'costs.ai.tier': 'Plano',
+  'costs.ai.monthlyFee': 'Mensalidade',
+  'costs.ai.includedUnits': '{unit} incluídas',
+  'costs.ai.overageRate': 'Excedente por {unit}',
+  'costs.ai.unit.conversation': 'conversas',
+  'costs.ai.unit.message': 'mensagens',
+  'costs.ai.newTier': 'Plano {number}',
+  'costs.ai.addTier': 'Adicionar plano',
+  'costs.ai.removeTier': 'Remover plano',
+  'costs.ai.total': 'Custo mensal estimado da IA',
+  'costs.ai.volume': '{count} {unit} por mês no plano {tier}',
+  'costs.ai.plan': 'Plano {name}',
+  'costs.ai.overageConversations': 'Excedente ({count} conversas)',
+  'costs.ai.overageMessages': 'Excedente ({count} mensagens)',
+  // Chart panel
+  'charts.title': 'Gráficos',
+  'charts.tab.funnel': 'Funil de leads',
+  'charts.tab.revenueCost': 'Faturação vs. custo',
+  'charts.tab.waterfall': 'Receita perdida',
+  'charts.exportImage': 'Transferir imagem',
+  'charts.exportCsv': 'Transferir CSV',
+  'charts.fileName': 'grafico',
+  'charts.funnel.description': 'Contactos do mês até à faturação em cada modo. Quantidades no eixo da esquerda, faturação no eixo da direita.',
+  'charts.funnel.contacts': 'Contactos',
+  'charts.funnel.responded': 'Atendidos',
+  'charts.funnel.conversions': 'Convertidos',
+  'charts.funnel.revenue': 'Faturação',
+  'charts.funnel.countAxis': 'Leads por mês',
+  'charts.funnel.revenueAxis': 'Faturação mensal',
+  'charts.revenueCost.description': 'Faturação, custo e lucro mensais de cada modo.',
+  'charts.revenueCost.revenue': 'Faturação',
+  'charts.revenueCost.cost': 'Custo',
+  'charts.revenueCost.profit': 'Lucro',
+  'charts.waterfall.description': 'De onde vem a diferença de faturação entre o atendimento humano e a IA: leads que ficam sem resposta e a menor conversão dos que são atendidos.',
+  'charts.waterfall.label': 'Faturação mensal',
+  'charts.waterfall.humanRevenue': 'Faturação humana',
+  'charts.waterfall.lostLeads': 'Leads perdidos',
+  'charts.waterfall.lowerConversion': 'Menor conversão',
+  'charts.waterfall.aiRevenue': 'Faturação IA',
+  'charts.tab.whatIf': 'E se…',
+  'charts.whatIf.description': 'Faturação, custo e lucro mensais de cada modo no cenário atual e num cenário guardado. Alterne entre os dois para ver as barras a mover-se.',
+  'charts.whatIf.compareWith': 'Comparar com',
+  'charts.whatIf.current': 'Cenário atual',
+  'charts.whatIf.noSaved': 'Guarde um cenário para o comparar com o atual.',
+  'charts.whatIf.profitChange': 'Variação do lucro – {mode}'
+};
+
+export default ptPT;
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetrics, Scenario } from './calculator';
+import { DEFAULT_UNCERTAINTY_SETTINGS, runSimulation, UncertainInput, UncertaintySettings } from './monteCarlo';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const FIXED: UncertainInput = { shape: 'fixed', lowPercent: 0, highPercent: 0 };
+
+// Every input fixed except the ones given
+const settingsWith = (changes: Partial<UncertaintySettings>): UncertaintySettings => ({
+  iterations: 20000,
+  contactsPerDay: FIXED,
+  ticketValue: FIXED,
+  humanConversionRate: FIXED,
+  aiConversionRate: FIXED,
+  humanLostLeadsRate: FIXED,
+  aiLostLeadsRate: FIXED,
+  ...changes
+});
+
+const assertClose = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+describe('runSimulation', () => {
+  it('collapses every percentile onto the point estimate when nothing varies', () => {
+    const result = runSimulation({ scenario: DEFAULT_SCENARIO, settings: settingsWith({ iterations: 500 }), seed: 1 });
+    const human = calculateMetrics(DEFAULT_SCENARIO, false);
+    const ai = calculateMetrics(DEFAULT_SCENARIO, true);
+
+    assert.deepEqual(result.human.revenue, { p10: human.revenue, p50: human.revenue, p90: human.revenue });
+    assert.deepEqual(result.ai.annualProfit, { p10: ai.annualProfit, p50: ai.annualProfit, p90: ai.annualProfit });
+    assert.equal(result.profitGap.p50, ai.annualProfit - human.annualProfit);
+    assert.equal(result.probabilityAiWins, 100);
+    assert.equal(result.histogram[0].count, 500);
+  });
+
+  it('repeats the same result for the same seed', () => {
+    const request = { scenario: DEFAULT_SCENARIO, settings: { ...DEFAULT_UNCERTAINTY_SETTINGS, iterations: 1000 }, seed: 42 };
+    assert.deepEqual(runSimulation(request), runSimulation(request));
+    assert.notDeepEqual(runSimulation(request).profitGap, runSimulation({ ...request, seed: 43 }).profitGap);
+  });
+
+  it('clamps the iteration count', () => {
+    const result = runSimulation({ scenario: DEFAULT_SCENARIO, settings: settingsWith({ iterations: 10 }), seed: 1 });
+    assert.equal(result.iterations, 500);
+  });
+
+  it('reads the triangular bounds around the scenario value as the mode', () => {
+    const settings = settingsWith({ ticketValue: { shape: 'triangular', lowPercent: -20, highPercent: 20 } });
+    const { human } = runSimulation({ scenario: DEFAULT_SCENARIO, settings, seed: 7 });
+    const revenue = calculateMetrics(DEFAULT_SCENARIO, false).revenue;
+
+    // P10 of a symmetric triangle over [0.8, 1.2]: 0.8 + sqrt(0.1 × 0.4 × 0.2)
+    assertClose(human.revenue.p10, revenue * (0.8 + Math.sqrt(0.008)), revenue * 0.01);
+    assertClose(human.revenue.p50, revenue, revenue * 0.01);
+  });
+
+  it('reads the normal bounds as the P10–P90 interval', () => {
+    const settings = settingsWith({ ticketValue: { shape: 'normal', lowPercent: -10, highPercent: 10 } });
+    const { human } = runSimulation({ scenario: DEFAULT_SCENARIO, settings, seed: 7 });
+    const revenue = calculateMetrics(DEFAULT_SCENARIO, false).revenue;
+
+    assertClose(human.revenue.p10, revenue * 0.9, revenue * 0.01);
+    assertClose(human.revenue.p90, revenue * 1.1, revenue * 0.01);
+  });
+
+  it('counts how often the AI comes out ahead', () => {
+    // No human cost, and an AI fee that makes both modes break even at the scenario's ticket: the AI wins exactly
+    // when the sampled ticket is above it
+    const noHumanCost: Scenario = {
+      ...DEFAULT_SCENARIO,
+      metrics: { ...DEFAULT_SCENARIO.metrics, humanMonthlyCost: 0, humanCostPerHour: 0 }
+    };
+    const human = calculateMetrics(noHumanCost, false);
+    const ai = calculateMetrics(noHumanCost, true);
+    const breakEven: Scenario = {
+      ...noHumanCost,
+      metrics: { ...noHumanCost.metrics, aiCostPerMonth: noHumanCost.metrics.aiCostPerMonth + ai.revenue - ai.monthlyCost - human.revenue }
+    };
+
+    // Uniform over [0.75, 1.75] of the ticket: above 1 three times out of four
+    const settings = settingsWith({ ticketValue: { shape: 'uniform', lowPercent: -25, highPercent: 75 } });
+    const result = runSimulation({ scenario: breakEven, settings, seed: 3 });
+    assertClose(result.probabilityAiWins, 75, 1.5);
+  });
+
+  it('spreads every trial over contiguous histogram bins', () => {
+    const result = runSimulation({ scenario: DEFAULT_SCENARIO, settings: { ...DEFAULT_UNCERTAINTY_SETTINGS, iterations: 2000 }, seed: 5 });
+    assert.equal(result.histogram.reduce((sum, bin) => sum + bin.count, 0), 2000);
+    result.histogram.slice(1).forEach((bin, index) => assertClose(bin.from, result.histogram[index].to, 1e-6));
+  });
+});
@@ -0,0 +1,203 @@
+import { calculateMetrics, Scenario } from './calculator';
+import { ConversionCurve, getConversionRate } from './conversionCurve';
+
+export type DistributionShape = 'fixed' | 'uniform' | 'triangular' | 'normal';
+
+// Bounds are relative to the scenario value, so the ranges follow the inputs as they are edited.
+// For the normal shape they are read as the P10–P90 interval.
+export interface UncertainInput {
+  shape: DistributionShape;
+  lowPercent: number;
+  highPercent: number;
+}
+
+export interface UncertaintySettings {
+  iterations: number;
+  contactsPerDay: UncertainInput;
+  ticketValue: UncertainInput;
+  humanConversionRate: UncertainInput;
+  aiConversionRate: UncertainInput;
+  humanLostLeadsRate: UncertainInput;
+  aiLostLeadsRate: UncertainInput;
+}
+
+export type UncertainVariable = Exclude<keyof UncertaintySettings, 'iterations'>;
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface ModeUncertainty {
+  revenue: Percentiles;
+  lostRevenue: Percentiles;
+  annualProfit: Percentiles;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  human: ModeUncertainty;
+  ai: ModeUncertainty;
+  profitGap: Percentiles;
+  histogram: HistogramBin[];
+  probabilityAiWins: number;
+}
+
+export interface SimulationRequest {
+  scenario: Scenario;
+  settings: UncertaintySettings;
+  seed: number;
+}
+
+export const MIN_ITERATIONS = 500;
+export const MAX_ITERATIONS = 50000;
+const HISTOGRAM_BINS = 30;
+const Z_P90 = 1.2816;
+
+export const DEFAULT_UNCERTAINTY_SETTINGS: UncertaintySettings = {
+  iterations: 5000,
+  contactsPerDay: { shape: 'triangular', lowPercent: -20, highPercent: 20 },
+  ticketValue: { shape: 'triangular', lowPercent: -20, highPercent: 20 },
+  humanConversionRate: { shape: 'uniform', lowPercent: -30, highPercent: 30 },
+  aiConversionRate: { shape: 'triangular', lowPercent: -25, highPercent: 10 },
+  humanLostLeadsRate: { shape: 'uniform', lowPercent: -20, highPercent: 20 },
+  aiLostLeadsRate: { shape: 'uniform', lowPercent: -20, highPercent: 50 }
+};
+
+// Mulberry32: small seeded generator so a given request always produces the same result
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sample(input: UncertainInput, base: number, random: () => number): number {
+  const min = base * (1 + input.lowPercent / 100);
+  const max = base * (1 + input.highPercent / 100);
+  const u = random();
+
+  switch (input.shape) {
+    case 'uniform':
+      return min + (max - min) * u;
+    case 'triangular': {
+      if (max <= min) return base;
+      const split = (base - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (base - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - base));
+    }
+    case 'normal': {
+      // Box–Muller transform
+      const z = Math.sqrt(-2 * Math.log(1 - u)) * Math.cos(2 * Math.PI * random());
+      return (min + max) / 2 + z * ((max - min) / (2 * Z_P90));
+    }
+    default:
+      return base;
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const index = clamp(Math.round(fraction * (sorted.length - 1)), 0, sorted.length - 1);
+  return sorted[index];
+}
+
+function summarize(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+}
+
+function buildHistogram(values: number[]): HistogramBin[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    from: min + index * width,
+    to: min + (index + 1) * width,
+    count: 0
+  }));
+  values.forEach((value) => {
+    bins[clamp(Math.floor((value - min) / width), 0, HISTOGRAM_BINS - 1)].count++;
+  });
+  return bins;
+}
+
+// A single flat breakpoint makes the curve return the sampled rate for any response time
+const flatCurve = (conversionRate: number): ConversionCurve => ({
+  breakpoints: [{ maxMinutes: 0, conversionRate }],
+  interpolation: 'step'
+});
+
+export function runSimulation({ scenario, settings, seed }: SimulationRequest): SimulationResult {
+  const random = createRandom(seed);
+  const iterations = Math.round(clamp(settings.iterations, MIN_ITERATIONS, MAX_ITERATIONS));
+  const { metrics, assumptions } = scenario;
+  const baseHumanConversion = getConversionRate(scenario.conversionCurve, metrics.responseTime);
+
+  const collected = {
+    human: { revenue: [] as number[], lostRevenue: [] as number[], annualProfit: [] as number[] },
+    ai: { revenue: [] as number[], lostRevenue: [] as number[], annualProfit: [] as number[] }
+  };
+  const gaps: number[] = [];
+  let aiWins = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const trial: Scenario = {
+      metrics: {
+        ...metrics,
+        contactsPerDay: Math.max(0, sample(settings.contactsPerDay, metrics.contactsPerDay, random)),
+        ticketValue: Math.max(0, sample(settings.ticketValue, metrics.ticketValue, random))
+      },
+      assumptions: {
+        ...assumptions,
+        aiConversionRate: clamp(sample(settings.aiConversionRate, assumptions.aiConversionRate, random), 0, 100),
+        humanLostLeadsRate: clamp(sample(settings.humanLostLeadsRate, assumptions.humanLostLeadsRate, random), 0, 1),
+        aiLostLeadsRate: clamp(sample(settings.aiLostLeadsRate, assumptions.aiLostLeadsRate, random), 0, 1)
+      },
+      conversionCurve: settings.humanConversionRate.shape === 'fixed'
+        ? scenario.conversionCurve
+        : flatCurve(clamp(sample(settings.humanConversionRate, baseHumanConversion, random), 0, 100))
+    };
+
+    const human = calculateMetrics(trial, false);
+    const ai = calculateMetrics(trial, true);
+    for (const [mode, result] of [['human', human], ['ai', ai]] as const) {
+      collected[mode].revenue.push(result.revenue);
+      collected[mode].lostRevenue.push(result.lostRevenue);
+      collected[mode].annualProfit.push(result.annualProfit);
+    }
+
+    const gap = ai.annualProfit - human.annualProfit;
+    gaps.push(gap);
+    if (gap > 0) aiWins++;
+  }
+
+  const summarizeMode = (values: typeof collected.human): ModeUncertainty => ({
+    revenue: summarize(values.revenue),
+    lostRevenue: summarize(values.lostRevenue),
+    annualProfit: summarize(values.annualProfit)
+  });
+
+  return {
+    iterations,
+    human: summarizeMode(collected.human),
+    ai: summarizeMode(collected.ai),
+    profitGap: summarize(gaps),
+    histogram: buildHistogram(gaps),
+    probabilityAiWins: (aiWins / iterations) * 100
+  };
+}
@@ -0,0 +1,6 @@
+import { runSimulation, SimulationRequest } from './monteCarlo';
+
+self.onmessage = (event: MessageEvent<SimulationRequest & { requestId: number }>) => {
+  const { requestId, ...request } = event.data;
+  self.postMessage({ requestId, result: runSimulation(request) });
+};
@@ -0,0 +1,195 @@
+// Minimal PDF writer: A4 pages, the built-in Helvetica fonts, filled rectangles, lines and JPEG images.
+// Enough for the proposal report without pulling a PDF library into the bundle.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right';
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// Glyph widths (1/1000 em) for ASCII 32–126, from the standard Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, ' ': 0xa0
+};
+
+function toWinAnsi(text: string): string {
+  return Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char;
+    const extra = WIN_ANSI_EXTRAS[char];
+    return extra !== undefined ? String.fromCharCode(extra) : '?';
+  }).join('');
+}
+
+function glyphWidth(char: string, bold: boolean): number {
+  // Accented letters are as wide as their base letter
+  const code = char.normalize('NFD').charCodeAt(0);
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+}
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, (char) => `\\${char}`);
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = ([r, g, b]: PdfColor) => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+
+function toBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+export function jpegFromDataUrl(dataUrl: string, width: number, height: number): PdfImage {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return { data: toBytes(binary), width, height };
+}
+
+// Coordinates are in points with the origin at the top-left corner of the page
+export function createPdfDocument() {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  const textWidth = (text: string, size: number, bold = false) =>
+    (Array.from(text).reduce((total, char) => total + glyphWidth(char, bold), 0) * size) / 1000;
+
+  return {
+    addPage() {
+      pages.push([]);
+    },
+
+    textWidth,
+
+    wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+      const lines: string[] = [];
+      let line = '';
+      for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+      return lines;
+    },
+
+    text(x: number, y: number, text: string, { size = 10, bold = false, color = [0, 0, 0], align = 'left' }: PdfTextOptions = {}) {
+      const left = align === 'right' ? x - textWidth(text, size, bold) : x;
+      current().push(
+        `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(A4_HEIGHT - y - size)} Td (${escapeText(toWinAnsi(text))}) Tj ET`
+      );
+    },
+
+    rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+      current().push(`${rgb(fill)} rg ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, width = 0.5) {
+      current().push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(A4_HEIGHT - y1)} m ${num(x2)} ${num(A4_HEIGHT - y2)} l S`);
+    },
+
+    image(image: PdfImage, x: number, y: number, width: number, height: number) {
+      images.push(image);
+      current().push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(A4_HEIGHT - y - height)} cm /Im${images.length - 1} Do Q`);
+    },
+
+    toBlob(): Blob {
+      const chunks: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+
+      const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? toBytes(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+      };
+      const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+          write('stream\n');
+          write(stream);
+          write('\nendstream\n');
+        }
+        write('endobj\n');
+      };
+
+      if (pages.length === 0) pages.push([]);
+      const firstImageId = 5;
+      const firstPageId = firstImageId + images.length;
+      const pageIds = pages.map((_, index) => firstPageId + index * 2);
+      const xObjects = images.map((_, index) => `/Im${index} ${firstImageId + index} 0 R`).join(' ');
+
+      write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+      writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+      writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      images.forEach((image, index) => {
+        writeObject(
+          firstImageId + index,
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+          image.data
+        );
+      });
+      pages.forEach((operations, index) => {
+        const pageId = pageIds[index];
+        const content = toBytes(operations.join('\n'));
+        writeObject(
+          pageId,
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageId + 1} 0 R >>`
+        );
+        writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+      });
+
+      const objectCount = firstPageId + pages.length * 2;
+      const xrefOffset = length;
+      write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+      for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+      }
+      write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+      return new Blob(chunks, { type: 'application/pdf' });
+    }
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
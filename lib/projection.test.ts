@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetrics } from './calculator';
+import { DEFAULT_PROJECTION_SETTINGS, getRampUpFactor, ProjectionSettings, projectScenario } from './projection';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+
+const human = calculateMetrics(DEFAULT_SCENARIO, false);
+const ai = calculateMetrics(DEFAULT_SCENARIO, true);
+// 1365787.5 - (-136300) = 1502087.5 per month
+const monthlySavings = (ai.revenue - ai.monthlyCost) - (human.revenue - human.monthlyCost);
+
+// Twelve identical months: no ramp-up, growth, price adjustment or discounting
+const flat: ProjectionSettings = {
+  months: 12,
+  setupFee: 3.5 * monthlySavings,
+  rampUpMonths: 0,
+  rampUpStartPercent: 100,
+  monthlyLeadGrowth: 0,
+  annualPriceAdjustment: 0,
+  annualDiscountRate: 0
+};
+
+describe('getRampUpFactor', () => {
+  it('grows linearly from the start percent to the full rate', () => {
+    const settings = { ...DEFAULT_PROJECTION_SETTINGS, rampUpMonths: 3, rampUpStartPercent: 50 };
+    assert.equal(getRampUpFactor(settings, 1), 0.5);
+    assert.equal(getRampUpFactor(settings, 2), 0.5 + 0.5 / 3);
+    assert.equal(getRampUpFactor(settings, 4), 1);
+    assert.equal(getRampUpFactor(settings, 10), 1);
+  });
+
+  it('is always 1 without a ramp-up', () => {
+    assert.equal(getRampUpFactor({ ...DEFAULT_PROJECTION_SETTINGS, rampUpMonths: 0 }, 1), 1);
+  });
+});
+
+describe('projectScenario', () => {
+  it('pays the setup fee back from constant monthly savings', () => {
+    assert.equal(monthlySavings, 1502087.5);
+    const result = projectScenario(DEFAULT_SCENARIO, flat);
+
+    assert.equal(result.months.length, 12);
+    assert.ok(result.months.every((month) => month.savings === monthlySavings));
+    assert.equal(result.months[0].cumulativeSavings, -2.5 * monthlySavings);
+    assert.equal(result.months[3].cumulativeSavings, 0.5 * monthlySavings);
+    // Month 4 is the first one out of the red: 4 × savings > 3.5 × savings
+    assert.equal(result.paybackMonth, 4);
+    assert.equal(result.months[11].cumulativeSavings, 8.5 * monthlySavings);
+    // Without discounting the NPV is the plain cumulative savings
+    assert.equal(result.npv, 8.5 * monthlySavings);
+    // ROI over everything spent on the AI: the setup fee plus twelve monthly bills
+    assert.equal(result.roi, (8.5 * monthlySavings) / (flat.setupFee + 12 * ai.monthlyCost) * 100);
+  });
+
+  it('never reaches payback when the setup fee outweighs the savings', () => {
+    const result = projectScenario(DEFAULT_SCENARIO, { ...flat, setupFee: 13 * monthlySavings });
+    assert.equal(result.paybackMonth, null);
+    assert.equal(result.months[11].cumulativeSavings, -monthlySavings);
+  });
+
+  it('discounts later months and ramps up the AI conversion', () => {
+    const discounted = projectScenario(DEFAULT_SCENARIO, { ...flat, annualDiscountRate: 12 });
+    assert.ok(discounted.npv < discounted.months[11].cumulativeSavings);
+
+    const rampedUp = projectScenario(DEFAULT_SCENARIO, { ...flat, rampUpMonths: 2, rampUpStartPercent: 50 });
+    assert.equal(rampedUp.months[0].aiConversionRate, ai.conversionRate / 2);
+    assert.equal(rampedUp.months[2].aiConversionRate, ai.conversionRate);
+  });
+
+  it('keeps the horizon within the allowed months', () => {
+    assert.equal(projectScenario(DEFAULT_SCENARIO, { ...flat, months: 3 }).months.length, 12);
+    assert.equal(projectScenario(DEFAULT_SCENARIO, { ...flat, months: 100 }).months.length, 36);
+  });
+});
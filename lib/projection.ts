@@ -0,0 +1,114 @@
+import { calculateMetrics, Scenario } from './calculator';
+
+export interface ProjectionSettings {
+  months: number;
+  setupFee: number;
+  rampUpMonths: number;
+  rampUpStartPercent: number;
+  monthlyLeadGrowth: number;
+  annualPriceAdjustment: number;
+  annualDiscountRate: number;
+}
+
+export interface ProjectionMonth {
+  month: number;
+  contactsPerDay: number;
+  aiConversionRate: number;
+  humanRevenue: number;
+  humanCost: number;
+  aiRevenue: number;
+  aiCost: number;
+  savings: number;
+  cumulativeSavings: number;
+}
+
+export interface ProjectionResult {
+  months: ProjectionMonth[];
+  paybackMonth: number | null;
+  roi: number;
+  npv: number;
+}
+
+export const MIN_PROJECTION_MONTHS = 12;
+export const MAX_PROJECTION_MONTHS = 36;
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  months: 24,
+  setupFee: 5000,
+  rampUpMonths: 3,
+  rampUpStartPercent: 50,
+  monthlyLeadGrowth: 0,
+  annualPriceAdjustment: 5,
+  annualDiscountRate: 12
+};
+
+// Share of the full AI conversion rate reached in a given month, growing linearly during ramp-up
+export function getRampUpFactor(settings: ProjectionSettings, month: number): number {
+  if (settings.rampUpMonths <= 0) return 1;
+  const start = settings.rampUpStartPercent / 100;
+  return Math.min(1, start + ((1 - start) * (month - 1)) / settings.rampUpMonths);
+}
+
+export function projectScenario(scenario: Scenario, settings: ProjectionSettings): ProjectionResult {
+  const totalMonths = Math.min(MAX_PROJECTION_MONTHS, Math.max(MIN_PROJECTION_MONTHS, Math.round(settings.months)));
+  const monthlyDiscount = Math.pow(1 + settings.annualDiscountRate / 100, 1 / 12) - 1;
+
+  const months: ProjectionMonth[] = [];
+  // The setup fee is paid up front, before the first month of operation
+  let cumulativeSavings = -settings.setupFee;
+  let npv = -settings.setupFee;
+  let totalAiInvestment = settings.setupFee;
+  let paybackMonth: number | null = null;
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const growth = Math.pow(1 + settings.monthlyLeadGrowth / 100, month - 1);
+    // Prices are adjusted once a year, on each anniversary of the contract
+    const priceIndex = Math.pow(1 + settings.annualPriceAdjustment / 100, Math.floor((month - 1) / 12));
+    const { metrics, assumptions } = scenario;
+
+    const monthScenario: Scenario = {
+      ...scenario,
+      metrics: {
+        ...metrics,
+        contactsPerDay: metrics.contactsPerDay * growth,
+        ticketValue: metrics.ticketValue * priceIndex,
+        humanMonthlyCost: metrics.humanMonthlyCost * priceIndex,
+        humanCostPerHour: metrics.humanCostPerHour * priceIndex,
+        aiCostPerMonth: metrics.aiCostPerMonth * priceIndex,
+        aiCostPerHour: metrics.aiCostPerHour * priceIndex
+      },
+      assumptions: {
+        ...assumptions,
+        aiConversionRate: assumptions.aiConversionRate * getRampUpFactor(settings, month)
+      }
+    };
+
+    const human = calculateMetrics(monthScenario, false);
+    const ai = calculateMetrics(monthScenario, true);
+    const savings = (ai.revenue - ai.monthlyCost) - (human.revenue - human.monthlyCost);
+
+    cumulativeSavings += savings;
+    npv += savings / Math.pow(1 + monthlyDiscount, month);
+    totalAiInvestment += ai.monthlyCost;
+    if (paybackMonth === null && cumulativeSavings >= 0) paybackMonth = month;
+
+    months.push({
+      month,
+      contactsPerDay: monthScenario.metrics.contactsPerDay,
+      aiConversionRate: ai.conversionRate,
+      humanRevenue: human.revenue,
+      humanCost: human.monthlyCost,
+      aiRevenue: ai.revenue,
+      aiCost: ai.monthlyCost,
+      savings,
+      cumulativeSavings
+    });
+  }
+
+  return {
+    months,
+    paybackMonth,
+    roi: totalAiInvestment > 0 ? (cumulativeSavings / totalAiInvestment) * 100 : 0,
+    npv
+  };
+}
@@ -0,0 +1,82 @@
+import { calculateHourlyCosts, calculateMetrics, Scenario, ScenarioResult } from './calculator';
+import { sortBreakpoints } from './conversionCurve';
+import { I18n } from './i18n';
+
+export interface ProposalRow {
+  label: string;
+  value: string;
+}
+
+export interface ProposalComparisonRow {
+  label: string;
+  human: string;
+  ai: string;
+}
+
+export interface ProposalData {
+  clientName: string;
+  issuedAt: string;
+  inputs: ProposalRow[];
+  monthly: ProposalComparisonRow[];
+  annual: ProposalComparisonRow[];
+  assumptions: ProposalRow[];
+}
+
+const compare = (
+  label: string,
+  human: ScenarioResult,
+  ai: ScenarioResult,
+  format: (metrics: ScenarioResult) => string
+): ProposalComparisonRow => ({ label, human: format(human), ai: format(ai) });
+
+export function buildProposal(scenario: Scenario, clientName: string, i18n: I18n): ProposalData {
+  const { t, formatCurrency, formatNumber, formatPercent, formatDate } = i18n;
+  const { metrics, assumptions, conversionCurve } = scenario;
+  const human = calculateMetrics(scenario, false);
+  const ai = calculateMetrics(scenario, true);
+  const { humanCostPerHour, aiCostPerHour } = calculateHourlyCosts(scenario);
+
+  const curveSummary = sortBreakpoints(conversionCurve.breakpoints)
+    .map((point) => t('proposal.curvePoint', { minutes: formatNumber(point.maxMinutes, 1), rate: formatPercent(point.conversionRate) }))
+    .join('; ');
+
+  return {
+    clientName,
+    issuedAt: formatDate(new Date()),
+    inputs: [
+      { label: t('proposal.contactsPerDay'), value: formatNumber(metrics.contactsPerDay) },
+      { label: t('proposal.humanResponseTime'), value: `${formatNumber(metrics.responseTime, 1)} min` },
+      { label: t('proposal.ticketValue'), value: formatCurrency(metrics.ticketValue) },
+      { label: t('proposal.humanMonthlyCost'), value: formatCurrency(metrics.humanMonthlyCost) },
+      { label: t('proposal.aiMonthlyCost'), value: formatCurrency(metrics.aiCostPerMonth) }
+    ],
+    monthly: [
+      compare(t('metrics.attendances'), human, ai, (m) => formatNumber(m.respondedContacts)),
+      compare(t('metrics.conversionRate'), human, ai, (m) => formatPercent(m.conversionRate)),
+      compare(t('metrics.conversions'), human, ai, (m) => formatNumber(m.conversions)),
+      compare(t('metrics.revenue'), human, ai, (m) => formatCurrency(m.revenue)),
+      compare(t('metrics.monthlyCost'), human, ai, (m) => formatCurrency(m.monthlyCost)),
+      compare(t('metrics.costPerAttendance'), human, ai, (m) => formatCurrency(m.costPerAttendance)),
+      compare(t('metrics.lostRevenue'), human, ai, (m) => formatCurrency(m.lostRevenue))
+    ],
+    annual: [
+      compare(t('metrics.annualRevenue'), human, ai, (m) => formatCurrency(m.annualRevenue)),
+      compare(t('metrics.annualCost'), human, ai, (m) => formatCurrency(m.annualCost)),
+      compare(t('metrics.annualProfit'), human, ai, (m) => formatCurrency(m.annualProfit))
+    ],
+    assumptions: [
+      { label: t('assumptions.daysPerMonth'), value: formatNumber(assumptions.daysPerMonth) },
+      {
+        label: t('proposal.workday'),
+        value: t('proposal.workdayValue', { days: formatNumber(assumptions.workingDaysPerMonth), hours: formatNumber(assumptions.hoursPerDay, 1) })
+      },
+      { label: t('proposal.lostLeads'), value: `${formatPercent(assumptions.humanLostLeadsRate * 100)} / ${formatPercent(assumptions.aiLostLeadsRate * 100)}` },
+      { label: t('proposal.aiResponse'), value: `${formatNumber(assumptions.aiResponseTime, 1)} min / ${formatPercent(assumptions.aiConversionRate)}` },
+      { label: t('proposal.costPerHour'), value: `${formatCurrency(humanCostPerHour)} / ${formatCurrency(aiCostPerHour)}` },
+      {
+        label: t('proposal.humanCurve'),
+        value: `${t(conversionCurve.interpolation === 'linear' ? 'curve.interpolation.linear' : 'curve.interpolation.step')} — ${curveSummary}`
+      }
+    ]
+  };
+}
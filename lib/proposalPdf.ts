@@ -0,0 +1,111 @@
+import { A4_HEIGHT, A4_WIDTH, createPdfDocument, PdfColor, PdfImage } from './pdf';
+import { Translate } from './i18n';
+import { ProposalComparisonRow, ProposalData, ProposalRow } from './proposal';
+
+interface ProposalImages {
+  logo?: PdfImage;
+  chart?: PdfImage;
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+const TEXT: PdfColor = [31, 41, 55];
+const MUTED: PdfColor = [107, 114, 128];
+const ACCENT: PdfColor = [13, 148, 136];
+const STRIPE: PdfColor = [243, 244, 246];
+const HUMAN: PdfColor = [220, 38, 38];
+const AI: PdfColor = [22, 163, 74];
+
+export function renderProposalPdf(data: ProposalData, t: Translate, { logo, chart }: ProposalImages = {}): Blob {
+  const pdf = createPdfDocument();
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= A4_HEIGHT - MARGIN) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40);
+    y += 12;
+    pdf.text(MARGIN, y, title, { size: 13, bold: true, color: ACCENT });
+    y += 20;
+  };
+
+  const keyValueRows = (rows: ProposalRow[]) => {
+    rows.forEach((row, index) => {
+      const lines = pdf.wrapText(row.value, CONTENT_WIDTH * 0.55 - 8, 9);
+      const height = Math.max(1, lines.length) * 12 + 6;
+      ensureSpace(height);
+      if (index % 2 === 0) pdf.rect(MARGIN, y, CONTENT_WIDTH, height, STRIPE);
+      pdf.text(MARGIN + 6, y + 4, row.label, { size: 9, color: MUTED });
+      lines.forEach((line, lineIndex) => {
+        pdf.text(A4_WIDTH - MARGIN - 6, y + 4 + lineIndex * 12, line, { size: 9, bold: true, color: TEXT, align: 'right' });
+      });
+      y += height;
+    });
+  };
+
+  const comparisonTable = (rows: ProposalComparisonRow[]) => {
+    const humanX = MARGIN + CONTENT_WIDTH * 0.7;
+    const aiX = A4_WIDTH - MARGIN - 6;
+
+    ensureSpace(20);
+    pdf.text(MARGIN + 6, y, t('proposal.indicator'), { size: 9, bold: true, color: MUTED });
+    pdf.text(humanX, y, t('mode.human'), { size: 9, bold: true, color: HUMAN, align: 'right' });
+    pdf.text(aiX, y, t('mode.ai'), { size: 9, bold: true, color: AI, align: 'right' });
+    y += 14;
+    pdf.line(MARGIN, y, A4_WIDTH - MARGIN, y, MUTED);
+    y += 2;
+
+    rows.forEach((row, index) => {
+      ensureSpace(18);
+      if (index % 2 === 1) pdf.rect(MARGIN, y, CONTENT_WIDTH, 18, STRIPE);
+      pdf.text(MARGIN + 6, y + 4, row.label, { size: 10, color: TEXT });
+      pdf.text(humanX, y + 4, row.human, { size: 10, color: TEXT, align: 'right' });
+      pdf.text(aiX, y + 4, row.ai, { size: 10, bold: true, color: TEXT, align: 'right' });
+      y += 18;
+    });
+  };
+
+  // Header
+  if (logo) {
+    const scale = Math.min(140 / logo.width, 56 / logo.height, 1);
+    pdf.image(logo, MARGIN, y, logo.width * scale, logo.height * scale);
+  }
+  pdf.text(A4_WIDTH - MARGIN, y, t('proposal.title'), { size: 16, bold: true, color: TEXT, align: 'right' });
+  if (data.clientName) {
+    pdf.text(A4_WIDTH - MARGIN, y + 22, data.clientName, { size: 12, color: TEXT, align: 'right' });
+  }
+  pdf.text(A4_WIDTH - MARGIN, y + 40, t('proposal.issuedAt', { date: data.issuedAt }), { size: 9, color: MUTED, align: 'right' });
+  y += 64;
+  pdf.line(MARGIN, y, A4_WIDTH - MARGIN, y, ACCENT, 1.5);
+  y += 8;
+
+  sectionTitle(t('proposal.inputs'));
+  keyValueRows(data.inputs);
+
+  sectionTitle(t('proposal.monthly'));
+  comparisonTable(data.monthly);
+
+  sectionTitle(t('proposal.annual'));
+  comparisonTable(data.annual);
+
+  if (chart) {
+    const height = (CONTENT_WIDTH * chart.height) / chart.width;
+    sectionTitle(t('proposal.chart'));
+    ensureSpace(height);
+    pdf.image(chart, MARGIN, y, CONTENT_WIDTH, height);
+    y += height;
+  }
+
+  sectionTitle(t('proposal.assumptions'));
+  keyValueRows(data.assumptions);
+
+  ensureSpace(30);
+  y += 16;
+  pdf.text(MARGIN, y, t('proposal.disclaimer'), { size: 8, color: MUTED });
+
+  return pdf.toBlob();
+}
@@ -0,0 +1,138 @@
+import {
+  AssumptionsType,
+  DEFAULT_ASSUMPTIONS,
+  DEFAULT_METRICS,
+  MetricsType,
+  Scenario,
+} from './calculator';
+import { ConversionCurve, DEFAULT_CONVERSION_CURVE } from './conversionCurve';
+import { CatalogError } from './i18n';
+import { checkNumber, FieldRule, METRIC_RULES, PERCENT_RULE, storedAssumptionRule } from './validation';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  scenario: Scenario;
+  updatedAt: string;
+}
+
+export interface ScenarioFile {
+  schemaVersion: number;
+  scenarios: SavedScenario[];
+}
+
+export const SCENARIO_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'pfixo-calculadora:scenarios';
+
+export class ScenarioFileError extends CatalogError {
+  name = 'ScenarioFileError';
+}
+
+export const DEFAULT_SCENARIO: Scenario = {
+  metrics: DEFAULT_METRICS,
+  assumptions: DEFAULT_ASSUMPTIONS,
+  conversionCurve: DEFAULT_CONVERSION_CURVE
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Keeps only the known numeric fields, falling back to the default for anything missing or outside its rule
+function mergeNumbers<T extends object>(defaults: T, value: unknown, ruleFor: (key: keyof T) => FieldRule): T {
+  const source = isRecord(value) ? value : {};
+  const merged = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const candidate = source[key as string];
+    if (isFiniteNumber(candidate) && checkNumber(candidate, ruleFor(key)) === null) merged[key] = candidate as T[keyof T];
+  }
+  return merged;
+}
+
+function normalizeCurve(value: unknown): ConversionCurve {
+  if (!isRecord(value) || !Array.isArray(value.breakpoints)) return DEFAULT_CONVERSION_CURVE;
+
+  const breakpoints = value.breakpoints
+    .filter(isRecord)
+    .filter((point) => isFiniteNumber(point.maxMinutes) && point.maxMinutes >= 0)
+    .filter((point) => isFiniteNumber(point.conversionRate) && checkNumber(point.conversionRate, PERCENT_RULE) === null)
+    .map((point) => ({ maxMinutes: point.maxMinutes as number, conversionRate: point.conversionRate as number }));
+  if (breakpoints.length === 0) return DEFAULT_CONVERSION_CURVE;
+
+  return {
+    breakpoints,
+    interpolation: value.interpolation === 'linear' ? 'linear' : 'step'
+  };
+}
+
+export function normalizeScenario(value: unknown): Scenario {
+  const source = isRecord(value) ? value : {};
+  return {
+    metrics: mergeNumbers<MetricsType>(DEFAULT_METRICS, source.metrics, (key) => METRIC_RULES[key]),
+    assumptions: mergeNumbers<AssumptionsType>(DEFAULT_ASSUMPTIONS, source.assumptions, storedAssumptionRule),
+    conversionCurve: normalizeCurve(source.conversionCurve)
+  };
+}
+
+export function createScenarioId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Scenarios without a name get `unnamed`, already translated by the caller
+function normalizeSavedScenarios(value: unknown, unnamed: string): SavedScenario[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).map((item) => ({
+    id: typeof item.id === 'string' ? item.id : createScenarioId(),
+    name: typeof item.name === 'string' && item.name.trim() ? item.name : unnamed,
+    scenario: normalizeScenario(item.scenario),
+    updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : new Date().toISOString()
+  }));
+}
+
+export function loadScenarios(unnamed: string): SavedScenario[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeSavedScenarios(JSON.parse(stored), unnamed) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Private browsing and a full quota make setItem throw; returns false so the UI can warn instead of crashing
+export function saveScenarios(scenarios: SavedScenario[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function exportScenarios(scenarios: SavedScenario[]): string {
+  const file: ScenarioFile = { schemaVersion: SCENARIO_SCHEMA_VERSION, scenarios };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseScenarioFile(text: string, unnamed: string): SavedScenario[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ScenarioFileError('scenarios.error.invalidJson');
+  }
+
+  if (!isRecord(parsed) || !isFiniteNumber(parsed.schemaVersion)) {
+    throw new ScenarioFileError('scenarios.error.missingVersion');
+  }
+  if (parsed.schemaVersion > SCENARIO_SCHEMA_VERSION) {
+    throw new ScenarioFileError('scenarios.error.unsupportedVersion', { version: parsed.schemaVersion });
+  }
+  if (!Array.isArray(parsed.scenarios)) {
+    throw new ScenarioFileError('scenarios.error.missingScenarios');
+  }
+
+  return normalizeSavedScenarios(parsed.scenarios, unnamed);
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMetrics } from './calculator';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+import { calculateHeatmap, calculateTornado, SENSITIVITY_VARIABLES, withVariable } from './sensitivity';
+
+const variable = (key: string) => SENSITIVITY_VARIABLES.find((item) => item.key === key)!;
+
+describe('withVariable', () => {
+  it('keeps rates inside their range', () => {
+    const scenario = withVariable(DEFAULT_SCENARIO, variable('humanLostLeadsRate'), 3);
+    assert.equal(scenario.assumptions.humanLostLeadsRate, 1);
+    assert.equal(withVariable(DEFAULT_SCENARIO, variable('aiConversionRate'), 400).assumptions.aiConversionRate, 100);
+    assert.equal(withVariable(DEFAULT_SCENARIO, variable('contactsPerDay'), -5).metrics.contactsPerDay, 0);
+  });
+});
+
+describe('calculateHeatmap', () => {
+  it('never charts negative contacts', () => {
+    const heatmap = calculateHeatmap(DEFAULT_SCENARIO, variable('humanLostLeadsRate'), variable('aiConversionRate'));
+    assert.ok(heatmap.xValues.every((value) => value >= 0 && value <= 1));
+    assert.ok(heatmap.yValues.every((value) => value >= 0 && value <= 100));
+    const worst = withVariable(DEFAULT_SCENARIO, variable('humanLostLeadsRate'), heatmap.xValues[heatmap.xValues.length - 1]);
+    assert.ok(calculateMetrics(worst, false).respondedContacts >= 0);
+  });
+});
+
+describe('calculateTornado', () => {
+  it('sorts the variables by the spread of the profit gap', () => {
+    const tornado = calculateTornado(DEFAULT_SCENARIO, 100);
+    assert.equal(tornado.length, SENSITIVITY_VARIABLES.length);
+    tornado.slice(1).forEach((bar, index) => assert.ok(bar.spread <= tornado[index].spread));
+  });
+});
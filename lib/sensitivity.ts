@@ -0,0 +1,97 @@
+import { AssumptionsType, calculateMetrics, MetricsType, Scenario } from './calculator';
+import { MessageKey } from './i18n';
+import { clampToRule, METRIC_RULES, storedAssumptionRule } from './validation';
+
+export type SensitivityVariable =
+  | { group: 'metrics'; key: keyof MetricsType; labelKey: MessageKey }
+  | { group: 'assumptions'; key: keyof AssumptionsType; labelKey: MessageKey };
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  low: number;
+  high: number;
+  spread: number;
+}
+
+export interface HeatmapCell {
+  xValue: number;
+  yValue: number;
+  profitGap: number;
+}
+
+export interface Heatmap {
+  xValues: number[];
+  yValues: number[];
+  rows: HeatmapCell[][];
+}
+
+// The hybrid settings are left out: they don't take part in the AI-versus-human comparison
+export const SENSITIVITY_VARIABLES: SensitivityVariable[] = [
+  { group: 'metrics', key: 'contactsPerDay', labelKey: 'sensitivity.variable.contactsPerDay' },
+  { group: 'metrics', key: 'responseTime', labelKey: 'sensitivity.variable.responseTime' },
+  { group: 'metrics', key: 'ticketValue', labelKey: 'sensitivity.variable.ticketValue' },
+  { group: 'metrics', key: 'humanMonthlyCost', labelKey: 'sensitivity.variable.humanMonthlyCost' },
+  { group: 'metrics', key: 'humanCostPerHour', labelKey: 'sensitivity.variable.humanCostPerHour' },
+  { group: 'metrics', key: 'aiCostPerMonth', labelKey: 'sensitivity.variable.aiCostPerMonth' },
+  { group: 'metrics', key: 'aiCostPerHour', labelKey: 'sensitivity.variable.aiCostPerHour' },
+  { group: 'assumptions', key: 'daysPerMonth', labelKey: 'sensitivity.variable.daysPerMonth' },
+  { group: 'assumptions', key: 'humanLostLeadsRate', labelKey: 'sensitivity.variable.humanLostLeadsRate' },
+  { group: 'assumptions', key: 'aiLostLeadsRate', labelKey: 'sensitivity.variable.aiLostLeadsRate' },
+  { group: 'assumptions', key: 'aiResponseTime', labelKey: 'sensitivity.variable.aiResponseTime' },
+  { group: 'assumptions', key: 'aiConversionRate', labelKey: 'sensitivity.variable.aiConversionRate' }
+];
+
+export const HEATMAP_FACTORS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3];
+
+// Annual profit of the AI minus the annual profit of the human team: positive means AI pays off
+export function calculateProfitGap(scenario: Scenario): number {
+  return calculateMetrics(scenario, true).annualProfit - calculateMetrics(scenario, false).annualProfit;
+}
+
+export function getVariableValue(scenario: Scenario, variable: SensitivityVariable): number {
+  return variable.group === 'metrics' ? scenario.metrics[variable.key] : scenario.assumptions[variable.key];
+}
+
+// Scaled rates are kept in range: a lost-lead rate above 1 or a conversion above 100% would chart impossible profits
+export function clampVariable(variable: SensitivityVariable, value: number): number {
+  return clampToRule(value, variable.group === 'metrics' ? METRIC_RULES[variable.key] : storedAssumptionRule(variable.key));
+}
+
+export function withVariable(scenario: Scenario, variable: SensitivityVariable, value: number): Scenario {
+  const clamped = clampVariable(variable, value);
+  return variable.group === 'metrics'
+    ? { ...scenario, metrics: { ...scenario.metrics, [variable.key]: clamped } }
+    : { ...scenario, assumptions: { ...scenario.assumptions, [variable.key]: clamped } };
+}
+
+export function calculateTornado(scenario: Scenario, variationPercent: number): TornadoBar[] {
+  const variation = variationPercent / 100;
+
+  return SENSITIVITY_VARIABLES
+    .map((variable) => {
+      const value = getVariableValue(scenario, variable);
+      const low = calculateProfitGap(withVariable(scenario, variable, value * (1 - variation)));
+      const high = calculateProfitGap(withVariable(scenario, variable, value * (1 + variation)));
+      return { variable, low, high, spread: Math.abs(high - low) };
+    })
+    .sort((a, b) => b.spread - a.spread);
+}
+
+export function calculateHeatmap(scenario: Scenario, xVariable: SensitivityVariable, yVariable: SensitivityVariable): Heatmap {
+  const xBase = getVariableValue(scenario, xVariable);
+  const yBase = getVariableValue(scenario, yVariable);
+  const xValues = HEATMAP_FACTORS.map((factor) => clampVariable(xVariable, xBase * factor));
+  const yValues = HEATMAP_FACTORS.map((factor) => clampVariable(yVariable, yBase * factor));
+
+  return {
+    xValues,
+    yValues,
+    rows: yValues.map((yValue) =>
+      xValues.map((xValue) => ({
+        xValue,
+        yValue,
+        profitGap: calculateProfitGap(withVariable(withVariable(scenario, xVariable, xValue), yVariable, yValue))
+      }))
+    )
+  };
+}
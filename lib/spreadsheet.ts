@@ -0,0 +1,191 @@
+import { CatalogError } from './i18n';
+
+export type SheetRows = string[][];
+
+export class SpreadsheetError extends CatalogError {
+  name = 'SpreadsheetError';
+}
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheet exports in Brazil usually use ';', since ',' is the decimal separator
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = CSV_DELIMITERS.map((delimiter) => firstLine.split(delimiter).length);
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+export function parseCsv(text: string): SheetRows {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Pairs each data row with the number the user sees in the spreadsheet, where the header is row 1
+export function dataRows(rows: SheetRows): { row: string[]; rowNumber: number }[] {
+  return rows.slice(1).map((row, index) => ({ row, rowNumber: index + 2 }));
+}
+
+// Rounded to cents with "." decimals, so any tool can read exported numbers back
+export const toCsvNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// Quotes only the cells that need it, so plain numbers stay readable
+export function toCsv(rows: SheetRows, delimiter = ','): string {
+  const escape = (cell: string) =>
+    cell.includes(delimiter) || cell.includes('"') || /[\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return rows.map((row) => row.map(escape).join(delimiter)).join('\n') + '\n';
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Minimal ZIP reader: XLSX files are ZIP archives of XML parts
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  let end = view.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new SpreadsheetError('import.error.invalidXlsx');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new SpreadsheetError('import.error.invalidXlsx');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new SpreadsheetError('import.error.invalidXlsx');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Reads the first worksheet; dates come back as Excel serial numbers, as stored in the file
+export async function readXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+  const readPart = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? readZipText(view, entry) : null;
+  };
+
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readPart('xl/workbook.xml');
+  const relationships = await readPart('xl/_rels/workbook.xml.rels');
+  if (workbook && relationships) {
+    const firstSheet = parseXml(workbook).getElementsByTagName('sheet')[0];
+    const relationId = firstSheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(relationships).getElementsByTagName('Relationship'))
+      .find((item) => item.getAttribute('Id') === relationId)?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = await readPart(sheetPath);
+  if (!sheet) throw new SpreadsheetError('import.error.invalidXlsx');
+
+  const sharedStringsPart = await readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsPart
+    ? Array.from(parseXml(sharedStringsPart).getElementsByTagName('si')).map((item) =>
+      Array.from(item.getElementsByTagName('t')).map((text) => text.textContent ?? '').join(''))
+    : [];
+
+  const rows: SheetRows = [];
+  for (const rowElement of Array.from(parseXml(sheet).getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      const text = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? Array.from(cell.getElementsByTagName('t')).map((item) => item.textContent ?? '').join('')
+          : value;
+      const reference = cell.getAttribute('r');
+      row[reference ? columnIndex(reference) : row.length] = text;
+    }
+    rows.push(Array.from(row, (cell) => cell ?? ''));
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+export async function readSpreadsheetFile(file: File): Promise<SheetRows> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let rows: SheetRows;
+  if (extension === 'xlsx') {
+    rows = await readXlsx(await file.arrayBuffer());
+  } else if (extension === 'csv' || extension === 'txt' || extension === 'tsv') {
+    rows = parseCsv(await file.text());
+  } else {
+    throw new SpreadsheetError('import.error.unsupportedFormat', { extension: extension ?? '' });
+  }
+
+  if (rows.length < 2) throw new SpreadsheetError('import.error.empty');
+  return rows;
+}
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ASSUMPTIONS, DEFAULT_METRICS } from './calculator';
+import { DEFAULT_CONVERSION_CURVE } from './conversionCurve';
+import { DEFAULT_SCENARIO } from './scenarioStore';
+import { decodeScenario, encodeScenario } from './urlState';
+
+describe('decodeScenario', () => {
+  it('round-trips an encoded scenario', () => {
+    const scenario = {
+      ...DEFAULT_SCENARIO,
+      metrics: { ...DEFAULT_METRICS, contactsPerDay: 80 },
+      assumptions: { ...DEFAULT_ASSUMPTIONS, humanLostLeadsRate: 0.25 }
+    };
+    assert.deepEqual(decodeScenario(encodeScenario(scenario)), scenario);
+  });
+
+  it('falls back to the defaults for values outside the model rules', () => {
+    const scenario = decodeScenario('?humanLostLeadsRate=5&daysPerMonth=0&aiConversionRate=900&contactsPerDay=-3');
+    assert.equal(scenario.assumptions.humanLostLeadsRate, DEFAULT_ASSUMPTIONS.humanLostLeadsRate);
+    assert.equal(scenario.assumptions.daysPerMonth, DEFAULT_ASSUMPTIONS.daysPerMonth);
+    assert.equal(scenario.assumptions.aiConversionRate, DEFAULT_ASSUMPTIONS.aiConversionRate);
+    assert.equal(scenario.metrics.contactsPerDay, DEFAULT_METRICS.contactsPerDay);
+  });
+
+  it('drops curve points with impossible rates', () => {
+    assert.deepEqual(decodeScenario('?curva=1:500').conversionCurve, DEFAULT_CONVERSION_CURVE);
+    assert.deepEqual(
+      decodeScenario('?curva=1:50,5:120,10:20').conversionCurve.breakpoints,
+      [{ maxMinutes: 1, conversionRate: 50 }, { maxMinutes: 10, conversionRate: 20 }]
+    );
+  });
+});
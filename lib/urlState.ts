@@ -0,0 +1,63 @@
+import { DEFAULT_ASSUMPTIONS, DEFAULT_METRICS, Scenario } from './calculator';
+import { DEFAULT_CONVERSION_CURVE } from './conversionCurve';
+import { normalizeScenario } from './scenarioStore';
+
+const CURVE_PARAM = 'curva';
+const INTERPOLATION_PARAM = 'interpolacao';
+
+// Out-of-range values are replaced by the defaults in normalizeScenario, like in imported files
+function parseParam(params: URLSearchParams, key: string): number | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseCurve(raw: string | null) {
+  if (!raw) return undefined;
+  return raw.split(',').map((pair) => {
+    const [maxMinutes, conversionRate] = pair.split(':').map(Number);
+    return { maxMinutes, conversionRate };
+  });
+}
+
+export function encodeScenario({ metrics, assumptions, conversionCurve }: Scenario): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(metrics)) {
+    params.set(key, String(value));
+  }
+  // Assumptions and the curve only appear when they differ from the defaults, to keep links short
+  for (const [key, value] of Object.entries(assumptions)) {
+    if (value !== DEFAULT_ASSUMPTIONS[key as keyof typeof DEFAULT_ASSUMPTIONS]) params.set(key, String(value));
+  }
+  if (JSON.stringify(conversionCurve.breakpoints) !== JSON.stringify(DEFAULT_CONVERSION_CURVE.breakpoints)) {
+    params.set(CURVE_PARAM, conversionCurve.breakpoints.map((point) => `${point.maxMinutes}:${point.conversionRate}`).join(','));
+  }
+  if (conversionCurve.interpolation !== DEFAULT_CONVERSION_CURVE.interpolation) {
+    params.set(INTERPOLATION_PARAM, conversionCurve.interpolation);
+  }
+  return params.toString();
+}
+
+export function decodeScenario(search: string): Scenario {
+  const params = new URLSearchParams(search);
+  const pick = (keys: string[]) =>
+    Object.fromEntries(keys.map((key) => [key, parseParam(params, key)]));
+
+  const breakpoints = parseCurve(params.get(CURVE_PARAM));
+  return normalizeScenario({
+    metrics: pick(Object.keys(DEFAULT_METRICS)),
+    assumptions: pick(Object.keys(DEFAULT_ASSUMPTIONS)),
+    conversionCurve: {
+      breakpoints: breakpoints ?? DEFAULT_CONVERSION_CURVE.breakpoints,
+      interpolation: params.get(INTERPOLATION_PARAM) ?? DEFAULT_CONVERSION_CURVE.interpolation
+    }
+  });
+}
+
+export function buildShareUrl(scenario: Scenario): string {
+  const url = new URL(window.location.href);
+  url.search = encodeScenario(scenario);
+  url.hash = '';
+  return url.toString();
+}
@@ -0,0 +1,89 @@
+import { AssumptionsType, MetricsType, ScenarioResult } from './calculator';
+import { MessageKey, MessageParams } from './i18n';
+
+export interface FieldRule {
+  min?: number;
+  max?: number;
+  // Increment used by the arrow keys
+  step?: number;
+  integer?: boolean;
+}
+
+export interface FieldError {
+  messageKey: MessageKey;
+  params?: MessageParams;
+}
+
+export type FieldValidation = { value: number; error: null } | { value: null; error: FieldError };
+
+// Response times are capped at a week; anything slower is a lost lead, not a slow one
+const MAX_MINUTES = 10080;
+const MAX_MONEY = 100000000;
+
+export const PERCENT_RULE: FieldRule = { min: 0, max: 100, step: 1 };
+export const HOUR_RULE: FieldRule = { min: 0, max: 24, step: 1, integer: true };
+// A zero rate would turn every converted amount into 0, so the minimum sits just above it
+export const EXCHANGE_RATE_RULE: FieldRule = { min: 0.0001, max: 100000, step: 0.01 };
+
+export const METRIC_RULES: Record<keyof MetricsType, FieldRule> = {
+  contactsPerDay: { min: 0, max: 100000, step: 1 },
+  responseTime: { min: 0, max: MAX_MINUTES, step: 1 },
+  ticketValue: { min: 0, max: MAX_MONEY, step: 10 },
+  humanCostPerHour: { min: 0, max: MAX_MONEY, step: 1 },
+  aiCostPerHour: { min: 0, max: MAX_MONEY, step: 1 },
+  humanMonthlyCost: { min: 0, max: MAX_MONEY, step: 100 },
+  aiCostPerMonth: { min: 0, max: MAX_MONEY, step: 100 }
+};
+
+// Rates are validated as edited, in percent
+export const ASSUMPTION_RULES: Record<keyof AssumptionsType, FieldRule> = {
+  daysPerMonth: { min: 1, max: 31, step: 1, integer: true },
+  workingDaysPerMonth: { min: 1, max: 31, step: 1, integer: true },
+  hoursPerDay: { min: 1, max: 24, step: 1 },
+  humanLostLeadsRate: PERCENT_RULE,
+  aiLostLeadsRate: PERCENT_RULE,
+  aiResponseTime: { min: 0, max: MAX_MINUTES, step: 1 },
+  aiConversionRate: PERCENT_RULE,
+  hybridHandoffRate: PERCENT_RULE,
+  hybridHumanResponseTime: { min: 0, max: MAX_MINUTES, step: 1 }
+};
+
+// Lost-lead and handoff rates are edited in percent but stored as fractions
+const FRACTION_ASSUMPTIONS: (keyof AssumptionsType)[] = ['humanLostLeadsRate', 'aiLostLeadsRate', 'hybridHandoffRate'];
+const FRACTION_RULE: FieldRule = { min: 0, max: 1 };
+
+// Rule for an assumption in the units the model stores, for values that never went through a form (links, files, CSV)
+export function storedAssumptionRule(key: keyof AssumptionsType): FieldRule {
+  return FRACTION_ASSUMPTIONS.includes(key) ? FRACTION_RULE : ASSUMPTION_RULES[key];
+}
+
+const NUMERIC_TEXT = /^-?[\d.,\s]+$/;
+
+export function checkNumber(value: number, rule: FieldRule): FieldError | null {
+  if (!Number.isFinite(value)) return { messageKey: 'validation.notANumber' };
+  if (rule.integer && !Number.isInteger(value)) return { messageKey: 'validation.integer' };
+  if (rule.min !== undefined && value < rule.min) {
+    return { messageKey: rule.min === 0 ? 'validation.negative' : 'validation.min', params: { min: rule.min } };
+  }
+  if (rule.max !== undefined && value > rule.max) return { messageKey: 'validation.max', params: { max: rule.max } };
+  return null;
+}
+
+// `parse` is the locale-aware parser, so "1.200,50" and "1,200.50" both work where they are expected
+export function validateNumber(text: string, rule: FieldRule, parse: (text: string) => number): FieldValidation {
+  const trimmed = text.trim();
+  if (trimmed === '') return { value: null, error: { messageKey: 'validation.required' } };
+
+  const value = NUMERIC_TEXT.test(trimmed) ? parse(trimmed) : NaN;
+  const error = checkNumber(value, rule);
+  return error ? { value: null, error } : { value, error: null };
+}
+
+export function clampToRule(value: number, rule: FieldRule): number {
+  return Math.min(rule.max ?? Infinity, Math.max(rule.min ?? -Infinity, value));
+}
+
+// A result is only worth showing when someone was attended and every figure is a real number
+export function hasSufficientData(result: ScenarioResult): boolean {
+  return result.respondedContacts > 0 && Object.values(result).every(Number.isFinite);
+}
@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import autoprefixer from 'autoprefixer';
+
+// Builds widget.tsx into a single self-contained pfixo-widget.js: React and the styles are bundled in, since the
+// host page loads nothing else
+export default defineConfig({
+  plugins: [react()],
+  css: {
+    postcss: {
+      plugins: [
+        tailwindcss({ content: ['./widget.tsx', './components/**/*.tsx'] }),
+        autoprefixer(),
+      ],
+    },
+  },
+  // Library mode leaves process.env untouched, and React reads NODE_ENV from it
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/widget',
+    lib: {
+      entry: 'widget.tsx',
+      formats: ['es'],
+      fileName: () => 'pfixo-widget.js',
+    },
+  },
+});
@@ -0,0 +1,91 @@
+// Entry of the embeddable build (`npm run build:widget`), mounted as a web component instead of the full page:
+//
+//   <script type="module" src="pfixo-widget.js"></script>
+//   <pfixo-calculadora contacts-per-day="80" ticket-value="1500" theme="light" accent-color="#7c3aed"></pfixo-calculadora>
+//
+// Results are sent as a `pfixo-calculadora:result` DOM event and, inside an iframe with a `target-origin` attribute,
+// as a postMessage to the parent. Without the attribute nothing is posted, since the results would reach any origin.
+import { StrictMode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import EmbedCalculator from './components/EmbedCalculator';
+import { DEFAULT_METRICS } from './lib/calculator';
+import {
+  EMBED_ATTRIBUTES,
+  EMBED_RESULT_EVENT,
+  EmbedResult,
+  localeFromAttributes,
+  metricsFromAttributes,
+  themeFromAttributes,
+  themeToCssVariables,
+} from './lib/embed';
+import { createI18n } from './lib/i18n';
+import { I18nContext } from './hooks/useI18n';
+import styles from './index.css?inline';
+
+// Inputs follow the theme instead of the app's fixed dark palette; invalid fields keep their red border
+const THEME_STYLES = `
+:host { display: block; }
+.pfixo-embed label { color: var(--pfixo-muted); }
+.pfixo-embed input { background: var(--pfixo-surface); color: var(--pfixo-text); }
+.pfixo-embed input:not([aria-invalid="true"]) { border-color: var(--pfixo-border); }
+.pfixo-embed input:focus { --tw-ring-color: var(--pfixo-accent); }
+`;
+
+class PfixoCalculatorElement extends HTMLElement {
+  static observedAttributes = EMBED_ATTRIBUTES;
+
+  private root: Root | null = null;
+  private container = document.createElement('div');
+  private themeStyle = document.createElement('style');
+
+  connectedCallback() {
+    if (!this.shadowRoot) {
+      const baseStyle = document.createElement('style');
+      baseStyle.textContent = styles + THEME_STYLES;
+      this.attachShadow({ mode: 'open' }).append(baseStyle, this.themeStyle, this.container);
+    }
+    this.root = createRoot(this.container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private emit = (result: EmbedResult) => {
+    this.dispatchEvent(new CustomEvent(EMBED_RESULT_EVENT, { detail: result, bubbles: true, composed: true }));
+    const targetOrigin = this.getAttribute('target-origin');
+    if (window.parent !== window && targetOrigin) {
+      window.parent.postMessage({ type: EMBED_RESULT_EVENT, ...result }, targetOrigin);
+    }
+  };
+
+  private render() {
+    if (!this.root) return;
+    const read = (name: string) => this.getAttribute(name);
+    const { locale, currency, exchangeRate } = localeFromAttributes(read);
+    const initialMetrics = { ...DEFAULT_METRICS, ...metricsFromAttributes(read) };
+
+    // Set on :host, so the host page can still override any variable from its own stylesheet
+    const variables = Object.entries(themeToCssVariables(themeFromAttributes(read)));
+    this.themeStyle.textContent = `:host { ${variables.map(([name, value]) => `${name}: ${value};`).join(' ')} }`;
+
+    this.root.render(
+      <StrictMode>
+        <I18nContext.Provider value={{ ...createI18n(locale, currency, exchangeRate), setLocaleSettings: () => undefined, settingsSaveFailed: false }}>
+          {/* New attribute values start the form over from them */}
+          <EmbedCalculator key={JSON.stringify(initialMetrics)} initialMetrics={initialMetrics} onResult={this.emit} />
+        </I18nContext.Provider>
+      </StrictMode>
+    );
+  }
+}
+
+if (!customElements.get('pfixo-calculadora')) {
+  customElements.define('pfixo-calculadora', PfixoCalculatorElement);
+}